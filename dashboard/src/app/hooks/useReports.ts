@@ -1,4 +1,5 @@
 import { ReportFile } from '@/types/reports';
+import { withReportDefaults } from '@/utils';
 import { useState, useEffect, useCallback } from 'react';
 
 export const useReports = () => {
@@ -16,8 +17,8 @@ export const useReports = () => {
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
-      const data = await response.json();
-      setReports(data);
+      const data: ReportFile[] = await response.json();
+      setReports(data.map(withReportDefaults));
     } catch (error) {
       console.error('Error fetching reports:', error);
       setError('Failed to load reports');
@@ -23,7 +23,8 @@ export const NetworkCharts: React.FC<Props> = ({ data }) => {
     const contexts = [
       ...new Set(
         results.map(
-          (result) => `${result.context.network}_${result.context.cpu}_${result.context.user_state}`
+          (result) =>
+            `${result.context.network}_${result.context.cpu}_${result.context.user_state}_${result.context.browser}_${result.context.cache_state}_${result.context.device}_${result.context.user_agent}_${result.context.fault}`
         )
       ),
     ];
@@ -42,6 +43,17 @@ export const NetworkCharts: React.FC<Props> = ({ data }) => {
     selectedUserStates: [
       ...new Set(results.map((result) => result.context?.user_state).filter(Boolean)),
     ],
+    selectedBrowsers: [
+      ...new Set(results.map((result) => result.context?.browser).filter(Boolean)),
+    ],
+    selectedCacheStates: [
+      ...new Set(results.map((result) => result.context?.cache_state).filter(Boolean)),
+    ],
+    selectedDevices: [...new Set(results.map((result) => result.context?.device).filter(Boolean))],
+    selectedUserAgents: [
+      ...new Set(results.map((result) => result.context?.user_agent).filter(Boolean)),
+    ],
+    selectedFaults: [...new Set(results.map((result) => result.context?.fault).filter(Boolean))],
     selectedContext: availableContexts[0] || '', // Default to first available context
   });
 
@@ -51,8 +63,8 @@ export const NetworkCharts: React.FC<Props> = ({ data }) => {
 
     // Process each context's results
     results.forEach((result) => {
-      const contextKey = `${result.context.network}_${result.context.cpu}_${result.context.user_state}`;
-      const contextLabel = `${result.context.network} | ${result.context.cpu} | ${result.context.user_state}`;
+      const contextKey = `${result.context.network}_${result.context.cpu}_${result.context.user_state}_${result.context.browser}_${result.context.cache_state}_${result.context.device}_${result.context.user_agent}_${result.context.fault}`;
+      const contextLabel = `${result.context.network} | ${result.context.cpu} | ${result.context.user_state} | ${result.context.browser} | ${result.context.cache_state} | ${result.context.device} | ${result.context.user_agent} | ${result.context.fault}`;
 
       result.requests.forEach((request) => {
         const requestKey = request.url;
@@ -72,6 +84,10 @@ export const NetworkCharts: React.FC<Props> = ({ data }) => {
           cpu: result.context.cpu,
           userState: result.context.user_state,
           browser: result.context.browser,
+          cacheState: result.context.cache_state,
+          device: result.context.device,
+          userAgent: result.context.user_agent,
+          fault: result.context.fault,
           mean: request.statistics.mean,
           min: request.statistics.min,
           max: request.statistics.max,
@@ -96,6 +112,11 @@ export const NetworkCharts: React.FC<Props> = ({ data }) => {
           filters.selectedNetworks.includes(point.network) &&
           filters.selectedCpus.includes(point.cpu) &&
           filters.selectedUserStates.includes(point.userState) &&
+          filters.selectedBrowsers.includes(point.browser) &&
+          filters.selectedCacheStates.includes(point.cacheState) &&
+          filters.selectedDevices.includes(point.device) &&
+          filters.selectedUserAgents.includes(point.userAgent) &&
+          filters.selectedFaults.includes(point.fault) &&
           (filters.selectedContext === '' || point.contextKey === filters.selectedContext)
       );
 
@@ -4,6 +4,7 @@ import { FilterControls } from './performance-charts/FilterControls';
 import { PerformanceLineChart } from './performance-charts/PerformanceLineChart';
 import { PerformanceBarChart } from './performance-charts/PerformanceBarChart';
 import { PerformanceSummary } from './performance-charts/PerformanceSummary';
+import { BlockingScriptsTable } from './performance-charts/BlockingScriptsTable';
 import { TestMethodology } from './TestMethodology';
 import { MultiSelectDropdown } from './MultiSelectDropdown';
 import { ChartDataPoint, FilterState } from './performance-charts/types';
@@ -20,6 +21,11 @@ export const PerformanceCharts: React.FC<Props> = ({ data }) => {
     selectedNetworks: Object.keys(data.execution_matrix.network),
     selectedCpus: Object.keys(data.execution_matrix.cpu),
     selectedUserStates: Object.keys(data.execution_matrix.user_state),
+    selectedBrowsers: data.execution_config.browsers,
+    selectedCacheStates: Object.keys(data.execution_matrix.cache_state),
+    selectedDevices: Object.keys(data.execution_matrix.device),
+    selectedUserAgents: Object.keys(data.execution_matrix.user_agent),
+    selectedFaults: Object.keys(data.execution_matrix.fault),
     chartType: 'line',
     valueType: 'mean',
   });
@@ -36,8 +42,8 @@ export const PerformanceCharts: React.FC<Props> = ({ data }) => {
     // Process each product's results
     data.products.forEach((product) => {
       product.results.forEach((result) => {
-        const contextKey = `${result.context.network}_${result.context.cpu}_${result.context.user_state}`;
-        const contextLabel = `${result.context.network} | ${result.context.cpu} | ${result.context.user_state}`;
+        const contextKey = `${result.context.network}_${result.context.cpu}_${result.context.user_state}_${result.context.browser}_${result.context.cache_state}_${result.context.device}_${result.context.user_agent}_${result.context.fault}`;
+        const contextLabel = `${result.context.network} | ${result.context.cpu} | ${result.context.user_state} | ${result.context.browser} | ${result.context.cache_state} | ${result.context.device} | ${result.context.user_agent} | ${result.context.fault}`;
 
         Object.entries(result.metrics).forEach(([metricKey, metricData]) => {
           if (transformedData[metricKey]) {
@@ -49,6 +55,10 @@ export const PerformanceCharts: React.FC<Props> = ({ data }) => {
               cpu: result.context.cpu,
               userState: result.context.user_state,
               browser: result.context.browser,
+              cacheState: result.context.cache_state,
+              device: result.context.device,
+              userAgent: result.context.user_agent,
+              fault: result.context.fault,
               mean: metricData.statistics.mean,
               min: metricData.statistics.min,
               max: metricData.statistics.max,
@@ -73,7 +83,12 @@ export const PerformanceCharts: React.FC<Props> = ({ data }) => {
             filters.selectedProducts.includes(point.product) &&
             filters.selectedNetworks.includes(point.network) &&
             filters.selectedCpus.includes(point.cpu) &&
-            filters.selectedUserStates.includes(point.userState)
+            filters.selectedUserStates.includes(point.userState) &&
+            filters.selectedBrowsers.includes(point.browser) &&
+            filters.selectedCacheStates.includes(point.cacheState) &&
+            filters.selectedDevices.includes(point.device) &&
+            filters.selectedUserAgents.includes(point.userAgent) &&
+            filters.selectedFaults.includes(point.fault)
         );
       }
     });
@@ -220,6 +235,9 @@ export const PerformanceCharts: React.FC<Props> = ({ data }) => {
           })}
         </div>
 
+        {/* Scripts behind long animation frames */}
+        <BlockingScriptsTable data={data} filters={filters} />
+
         {/* Summary Statistics */}
         <PerformanceSummary data={data} filteredData={filteredData} filters={filters} />
       </div>
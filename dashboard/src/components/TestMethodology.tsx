@@ -1,4 +1,12 @@
-import { BenchmarkResults, NetworkConfig, CPUConfig, UserStateConfig } from '@/types/reports';
+import {
+  BenchmarkResults,
+  NetworkConfig,
+  CPUConfig,
+  UserStateConfig,
+  DeviceConfig,
+  UserAgentSelectionConfig,
+  FaultConfig,
+} from '@/types/reports';
 import { Info, Globe, Cpu, Network, RotateCcw, Monitor, Clock, Server } from 'lucide-react';
 import React from 'react';
 
@@ -32,6 +40,26 @@ export const TestMethodology: React.FC<Props> = ({ data }) => {
     .filter(([, config]) => config.enabled)
     .map(([name, config]) => ({ name, config }));
 
+  // Get enabled cache states
+  const enabledCacheStates = Object.entries(data.execution_matrix.cache_state)
+    .filter(([, config]) => config.enabled)
+    .map(([name, config]) => ({ name, config }));
+
+  // Get enabled devices
+  const enabledDevices = Object.entries(data.execution_matrix.device)
+    .filter(([, config]) => config.enabled)
+    .map(([name, config]) => ({ name, config }));
+
+  // Get enabled user agent profiles
+  const enabledUserAgents = Object.entries(data.execution_matrix.user_agent)
+    .filter(([, config]) => config.enabled)
+    .map(([name, config]) => ({ name, config }));
+
+  // Get enabled fault profiles
+  const enabledFaults = Object.entries(data.execution_matrix.fault)
+    .filter(([, config]) => config.enabled)
+    .map(([name, config]) => ({ name, config }));
+
   // Calculate actual iterations from the data
   // For newer reports, execution_config.iterations will be corrected by consolidation script
   // For older reports, we need to calculate from actual measurements
@@ -53,13 +81,49 @@ export const TestMethodology: React.FC<Props> = ({ data }) => {
 
   const actualIterationsPerContext = calculateActualIterations();
 
-  // Calculate total tests run
-  const totalTestsRun =
-    enabledProducts.length *
+  // CPU throttling is Chromium-only, so throttled CPU conditions are skipped on other browsers
+  const cpuBrowserPairs = data.execution_config.browsers.reduce(
+    (count, browser) =>
+      count + enabledCpus.filter(({ config }) => browser === 'chromium' || config.rate <= 1).length,
+    0
+  );
+  const totalCombinations =
     enabledNetworks.length *
-    enabledCpus.length *
+    cpuBrowserPairs *
     enabledUserStates.length *
-    actualIterationsPerContext;
+    enabledCacheStates.length *
+    enabledDevices.length *
+    enabledUserAgents.length *
+    enabledFaults.length;
+
+  // Calculate total tests run
+  const totalTestsRun = enabledProducts.length * totalCombinations * actualIterationsPerContext;
+
+  const formatDevice = (name: string, config: DeviceConfig) => {
+    const label = name.replace(/_/g, ' ');
+    if (config.viewport) {
+      return `${label} (${config.viewport.width} x ${config.viewport.height})`;
+    }
+    return config.descriptor ? `${label} (${config.descriptor})` : label;
+  };
+
+  const formatUserAgentSelection = (selection: UserAgentSelectionConfig) => {
+    if (selection.mode === 'seeded') {
+      return `seeded, seed ${selection.seed}`;
+    }
+    return selection.mode;
+  };
+
+  const formatFault = (name: string, config: FaultConfig) => {
+    const label = name.replace(/_/g, ' ');
+    if (config.rules.length === 0) {
+      return label;
+    }
+    const injected = data.products
+      .flatMap((product) => product.injected_faults ?? [])
+      .filter((fault) => fault.combination.fault === name).length;
+    return `${label} (${config.rules.length} rules, ${injected} injected)`;
+  };
 
   const formatNetworkCondition = (name: string, config: NetworkConfig) => {
     if (name === 'no_throttling') {
@@ -71,7 +135,12 @@ export const TestMethodology: React.FC<Props> = ({ data }) => {
     if (name === 'fast_4g') {
       return `Fast 4G (${config.download_throughput / 1000}kbps ↓, ${config.upload_throughput / 1000}kbps ↑, ${config.latency}ms latency)`;
     }
-    return name.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
+    // Custom profiles declared in a config file
+    const label = name.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
+    if (config.download_throughput > 0) {
+      return `${label} (${config.download_throughput / 1000}kbps ↓, ${config.upload_throughput / 1000}kbps ↑, ${config.latency}ms latency)`;
+    }
+    return label;
   };
 
   const formatCpuCondition = (name: string, config: CPUConfig) => {
@@ -93,7 +162,8 @@ export const TestMethodology: React.FC<Props> = ({ data }) => {
     if (name === 'new_user') {
       return config.is_logged_in ? 'New User (Logged In)' : 'New User (Not Logged In)';
     }
-    return name.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
+    const label = name.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
+    return config.is_logged_in ? `${label} (Logged In)` : label;
   };
 
   return (
@@ -140,6 +210,12 @@ export const TestMethodology: React.FC<Props> = ({ data }) => {
               <span className="text-gray-600">Browser:</span>
               <span className="font-medium">{data.execution_config.browsers.join(', ')}</span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Cache State:</span>
+              <span className="font-medium">
+                {enabledCacheStates.map(({ name }) => name.replace(/_/g, ' ')).join(', ')}
+              </span>
+            </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Timeout:</span>
               <span className="font-medium">{data.execution_config.timeout / 1000}s</span>
@@ -181,7 +257,7 @@ export const TestMethodology: React.FC<Props> = ({ data }) => {
           </div>
         </div>
 
-        {/* Viewport & Environment */}
+        {/* Devices & Environment */}
         <div className="bg-white rounded-lg p-4 border border-gray-200">
           <div className="flex items-center space-x-2 mb-3">
             <Monitor className="w-4 h-4 text-indigo-600" />
@@ -189,15 +265,23 @@ export const TestMethodology: React.FC<Props> = ({ data }) => {
           </div>
           <div className="space-y-2 text-sm">
             <div className="flex justify-between">
-              <span className="text-gray-600">Viewport:</span>
-              <span className="font-medium">
-                {data.execution_config.viewport.width} x {data.execution_config.viewport.height}
+              <span className="text-gray-600">Devices:</span>
+              <span className="font-medium text-right">
+                {enabledDevices.map(({ name, config }) => formatDevice(name, config)).join(', ')}
               </span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Headless:</span>
               <span className="font-medium">{data.execution_config.headless ? 'Yes' : 'No'}</span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Responses:</span>
+              <span className="font-medium">
+                {data.har?.mode === 'replay'
+                  ? `Replayed from HAR (${data.har.think_time_ms}ms think time)`
+                  : 'Live servers'}
+              </span>
+            </div>
             <div className="flex justify-between">
               <span className="text-gray-600">User States:</span>
               <span className="font-medium">
@@ -206,6 +290,18 @@ export const TestMethodology: React.FC<Props> = ({ data }) => {
                   .join(', ')}
               </span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">User Agents:</span>
+              <span className="font-medium text-right">
+                {`${enabledUserAgents.map(({ name }) => name.replace(/_/g, ' ')).join(', ')} (${formatUserAgentSelection(data.execution_config.user_agent)})`}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Fault Profiles:</span>
+              <span className="font-medium text-right">
+                {enabledFaults.map(({ name, config }) => formatFault(name, config)).join(', ')}
+              </span>
+            </div>
           </div>
         </div>
 
@@ -271,9 +367,7 @@ export const TestMethodology: React.FC<Props> = ({ data }) => {
             </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Test Combinations:</span>
-              <span className="font-medium">
-                {enabledNetworks.length * enabledCpus.length * enabledUserStates.length}
-              </span>
+              <span className="font-medium">{totalCombinations}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Total Tests:</span>
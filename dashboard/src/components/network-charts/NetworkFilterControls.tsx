@@ -30,11 +30,22 @@ export const NetworkFilterControls: React.FC<Props> = ({
 
   const userStates = [...new Set(data.results.map((result) => result.context.user_state))];
 
+  const browsers = [...new Set(data.results.map((result) => result.context.browser))];
+
+  const cacheStates = [...new Set(data.results.map((result) => result.context.cache_state))];
+
+  const devices = [...new Set(data.results.map((result) => result.context.device))];
+
+  const userAgents = [...new Set(data.results.map((result) => result.context.user_agent))];
+
+  const faults = [...new Set(data.results.map((result) => result.context.fault))];
+
   // Get available execution contexts
   const availableContexts = [
     ...new Set(
       data.results.map(
-        (result) => `${result.context.network}_${result.context.cpu}_${result.context.user_state}`
+        (result) =>
+          `${result.context.network}_${result.context.cpu}_${result.context.user_state}_${result.context.browser}_${result.context.cache_state}_${result.context.device}_${result.context.user_agent}_${result.context.fault}`
       )
     ),
   ];
@@ -60,10 +71,35 @@ export const NetworkFilterControls: React.FC<Props> = ({
     label: userState.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase()),
   }));
 
+  const browserOptions = browsers.map((browser) => ({
+    value: browser,
+    label: browser.replace(/\b\w/g, (l) => l.toUpperCase()),
+  }));
+
+  const cacheStateOptions = cacheStates.map((cacheState) => ({
+    value: cacheState,
+    label: cacheState.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase()),
+  }));
+
+  const deviceOptions = devices.map((device) => ({
+    value: device,
+    label: device.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase()),
+  }));
+
+  const userAgentOptions = userAgents.map((userAgent) => ({
+    value: userAgent,
+    label: userAgent.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase()),
+  }));
+
+  const faultOptions = faults.map((fault) => ({
+    value: fault,
+    label: fault.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase()),
+  }));
+
   const contextOptions = availableContexts.map((contextKey) => ({
     value: contextKey,
     label: contextKey.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase()),
-    fullLabel: formatNetworkContextLabel(contextKey),
+    fullLabel: formatNetworkContextLabel(contextKey, cacheStates, devices, userAgents),
   }));
 
   return (
@@ -131,6 +167,51 @@ export const NetworkFilterControls: React.FC<Props> = ({
           onChange={(values) => onFiltersChange({ ...filters, selectedUserStates: values })}
           placeholder="Select user states..."
         />
+
+        {/* Browser Selector */}
+        <MultiSelectDropdown
+          label="Browser"
+          options={browserOptions}
+          selectedValues={filters.selectedBrowsers}
+          onChange={(values) => onFiltersChange({ ...filters, selectedBrowsers: values })}
+          placeholder="Select browsers..."
+        />
+
+        {/* Cache State Selector */}
+        <MultiSelectDropdown
+          label="Cache State"
+          options={cacheStateOptions}
+          selectedValues={filters.selectedCacheStates}
+          onChange={(values) => onFiltersChange({ ...filters, selectedCacheStates: values })}
+          placeholder="Select cache states..."
+        />
+
+        {/* Device Selector */}
+        <MultiSelectDropdown
+          label="Device"
+          options={deviceOptions}
+          selectedValues={filters.selectedDevices}
+          onChange={(values) => onFiltersChange({ ...filters, selectedDevices: values })}
+          placeholder="Select devices..."
+        />
+
+        {/* User Agent Selector */}
+        <MultiSelectDropdown
+          label="User Agent"
+          options={userAgentOptions}
+          selectedValues={filters.selectedUserAgents}
+          onChange={(values) => onFiltersChange({ ...filters, selectedUserAgents: values })}
+          placeholder="Select user agents..."
+        />
+
+        {/* Fault Profile Selector */}
+        <MultiSelectDropdown
+          label="Fault Profile"
+          options={faultOptions}
+          selectedValues={filters.selectedFaults}
+          onChange={(values) => onFiltersChange({ ...filters, selectedFaults: values })}
+          placeholder="Select fault profiles..."
+        />
       </div>
     </div>
   );
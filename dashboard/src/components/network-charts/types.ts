@@ -11,6 +11,10 @@ export interface NetworkChartDataPoint {
   cpu: string;
   userState: string;
   browser: string;
+  cacheState: string;
+  device: string;
+  userAgent: string;
+  fault: string;
   mean: number;
   min: number;
   max: number;
@@ -31,6 +35,11 @@ export interface NetworkFilterState {
   selectedNetworks: string[];
   selectedCpus: string[];
   selectedUserStates: string[];
+  selectedBrowsers: string[];
+  selectedCacheStates: string[];
+  selectedDevices: string[];
+  selectedUserAgents: string[];
+  selectedFaults: string[];
   selectedContext: string;
 }
 
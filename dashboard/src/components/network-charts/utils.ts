@@ -7,9 +7,28 @@ import {
   REQUEST_TYPE_COLORS,
 } from './types';
 
+const BROWSER_NAMES = ['chromium', 'firefox', 'webkit'];
+
 // Parse context key into components for network data
-export const parseNetworkContextKey = (contextKey: string) => {
-  const parts = contextKey.split('_');
+export const parseNetworkContextKey = (
+  contextKey: string,
+  cacheStates: string[],
+  devices: string[],
+  userAgents: string[]
+) => {
+  const allParts = contextKey.split('_');
+  // Browser names never contain underscores; the cache state (e.g. repeat_view), device, user
+  // agent and fault profile follow it
+  const browserIndex = allParts.findIndex((part) => BROWSER_NAMES.includes(part));
+  const parts = allParts.slice(0, browserIndex);
+  const browser = allParts[browserIndex] ?? '';
+  let suffix = allParts.slice(browserIndex + 1).join('_');
+  const cacheState = cacheStates.find((key) => suffix.startsWith(`${key}_`)) ?? '';
+  suffix = suffix.slice(cacheState.length + 1);
+  const device = devices.find((key) => suffix.startsWith(`${key}_`)) ?? '';
+  suffix = suffix.slice(device.length + 1);
+  const userAgent = userAgents.find((key) => suffix.startsWith(`${key}_`)) ?? '';
+  const fault = suffix.slice(userAgent.length + 1);
 
   // For network data, we expect: network_cpu_userState format
   // Handle cases like "slow_4g_no_throttling_new_user"
@@ -36,12 +55,18 @@ export const parseNetworkContextKey = (contextKey: string) => {
     userState = parts.slice(throttlingIndex + 1).join('_');
   }
 
-  return { network, cpu, userState };
+  return { network, cpu, userState, browser, cacheState, device, userAgent, fault };
 };
 
 // Format context labels for network data
-export const formatNetworkContextLabel = (contextKey: string) => {
-  const { network, cpu, userState } = parseNetworkContextKey(contextKey);
+export const formatNetworkContextLabel = (
+  contextKey: string,
+  cacheStates: string[],
+  devices: string[],
+  userAgents: string[]
+) => {
+  const { network, cpu, userState, browser, cacheState, device, userAgent, fault } =
+    parseNetworkContextKey(contextKey, cacheStates, devices, userAgents);
 
   const formatPart = (part: string) =>
     part
@@ -49,7 +74,7 @@ export const formatNetworkContextLabel = (contextKey: string) => {
       .replace(/\b\w/g, (l) => l.toUpperCase())
       .replace(/4x/g, '4×');
 
-  return `Network: ${formatPart(network)}\nCPU: ${formatPart(cpu)}\nUser State: ${formatPart(userState)}`;
+  return `Network: ${formatPart(network)}\nCPU: ${formatPart(cpu)}\nUser State: ${formatPart(userState)}\nBrowser: ${formatPart(browser)}\nCache State: ${formatPart(cacheState)}\nDevice: ${formatPart(device)}\nUser Agent: ${formatPart(userAgent)}\nFault: ${formatPart(fault)}`;
 };
 
 // Create a global legend mapping for network execution contexts
@@ -57,10 +82,13 @@ export const createNetworkContextLegend = (
   requestData: NetworkChartDataPoint[]
 ): NetworkContextLegendItem[] => {
   const uniqueContexts = [...new Set(requestData.map((point) => point.contextKey))];
+  const cacheStates = [...new Set(requestData.map((point) => point.cacheState))];
+  const devices = [...new Set(requestData.map((point) => point.device))];
+  const userAgents = [...new Set(requestData.map((point) => point.userAgent))];
   return uniqueContexts.map((contextKey, index) => ({
     index: index + 1,
     contextKey,
-    contextLabel: formatNetworkContextLabel(contextKey),
+    contextLabel: formatNetworkContextLabel(contextKey, cacheStates, devices, userAgents),
   }));
 };
 
@@ -94,7 +122,8 @@ export const transformNetworkChartData = (
       shortUrl: '', // Not used for context grouping
       method: '', // Not used for context grouping
       type: 'other' as NetworkRequestType, // Not used for context grouping
-      contextLabel: formatNetworkContextLabel(contextKey),
+      contextLabel:
+        contextLegend.find((legend) => legend.contextKey === contextKey)?.contextLabel ?? '',
       contextKey: contextKey,
       shortLabel: contextIndex.toString(),
       contextIndex: contextIndex,
@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { BenchmarkResults, LoadPhase } from '@/types/reports';
+import { MultiSelectDropdown } from '../MultiSelectDropdown';
+import { FilterState } from './types';
+
+interface Props {
+  data: BenchmarkResults;
+  filters: FilterState;
+}
+
+interface BlockingScriptRow {
+  key: string;
+  product: string;
+  contextLabel: string;
+  sourceUrl: string;
+  functionName: string;
+  invoker: string;
+  invokerType: string;
+  meanDuration: number;
+  maxDuration: number;
+  iterationsWithScript: number;
+  iterations: number;
+}
+
+const TOP_SCRIPTS = 20;
+const ALL_PHASES = 'all';
+const LOAD_PHASES: LoadPhase[] = ['click_to_popup', 'popup_to_content', 'content_to_interactive'];
+
+export const BlockingScriptsTable: React.FC<Props> = ({ data, filters }) => {
+  const [selectedPhase, setSelectedPhase] = useState<string>(ALL_PHASES);
+
+  const rows = useMemo(() => {
+    const scriptRows: BlockingScriptRow[] = [];
+
+    data.products.forEach((product) => {
+      if (!filters.selectedProducts.includes(product.product)) return;
+
+      product.results.forEach((result) => {
+        const { context } = result;
+        if (
+          !result.blocking_scripts ||
+          !filters.selectedNetworks.includes(context.network) ||
+          !filters.selectedCpus.includes(context.cpu) ||
+          !filters.selectedUserStates.includes(context.user_state) ||
+          !filters.selectedBrowsers.includes(context.browser) ||
+          !filters.selectedCacheStates.includes(context.cache_state) ||
+          !filters.selectedDevices.includes(context.device) ||
+          !filters.selectedUserAgents.includes(context.user_agent) ||
+          !filters.selectedFaults.includes(context.fault)
+        ) {
+          return;
+        }
+
+        // Scripts are only kept for iterations that ran, so average over every measured iteration
+        const iterations = new Set(
+          Object.values(result.metrics).flatMap((metric) =>
+            metric.measurements.map((m) => m.iteration)
+          )
+        ).size;
+        if (iterations === 0) return;
+
+        const contextLabel = `${context.network} | ${context.cpu} | ${context.user_state} | ${context.browser} | ${context.cache_state} | ${context.device} | ${context.user_agent} | ${context.fault}`;
+
+        // Script time per iteration, summed over the selected phases
+        const byScript: Record<
+          string,
+          { script: (typeof result.blocking_scripts)[number]; durations: Record<number, number> }
+        > = {};
+        result.blocking_scripts.forEach((script) => {
+          if (selectedPhase !== ALL_PHASES && script.phase !== selectedPhase) return;
+
+          const scriptKey = [
+            script.source_url,
+            script.function_name,
+            script.invoker,
+            script.invoker_type,
+          ].join('|');
+          if (!byScript[scriptKey]) {
+            byScript[scriptKey] = { script, durations: {} };
+          }
+          const durations = byScript[scriptKey].durations;
+          durations[script.iteration] = (durations[script.iteration] ?? 0) + script.duration;
+        });
+
+        Object.entries(byScript).forEach(([scriptKey, { script, durations }]) => {
+          const values = Object.values(durations);
+          scriptRows.push({
+            key: `${product.product}|${contextLabel}|${scriptKey}`,
+            product: product.product,
+            contextLabel,
+            sourceUrl: script.source_url,
+            functionName: script.function_name,
+            invoker: script.invoker,
+            invokerType: script.invoker_type,
+            meanDuration: values.reduce((sum, value) => sum + value, 0) / iterations,
+            maxDuration: Math.max(...values),
+            iterationsWithScript: values.length,
+            iterations,
+          });
+        });
+      });
+    });
+
+    return scriptRows.sort((a, b) => b.meanDuration - a.meanDuration).slice(0, TOP_SCRIPTS);
+  }, [data, filters, selectedPhase]);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xl font-semibold text-gray-800">🧱 Top Blocking Scripts</h3>
+        <div className="w-56">
+          <MultiSelectDropdown
+            label=""
+            options={[
+              { value: ALL_PHASES, label: 'Click to Interactive' },
+              ...LOAD_PHASES.map((phase) => ({
+                value: phase,
+                label: data.metrics_metadata[phase]?.name ?? phase,
+              })),
+            ]}
+            selectedValues={[selectedPhase]}
+            onChange={(values) => setSelectedPhase(values[0] ?? ALL_PHASES)}
+            placeholder="Select load phase..."
+            multiSelect={false}
+          />
+        </div>
+      </div>
+      <p className="text-gray-600 text-sm leading-relaxed mb-4">
+        Scripts that ran in long animation frames (over 50ms) between the checkout click and main
+        thread idle, by mean script time per iteration in each context. Only Chromium reports long
+        animation frames.
+      </p>
+
+      {rows.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <p className="font-medium">No blocking scripts recorded</p>
+          <p className="text-sm mt-1">
+            The selected contexts have no long animation frames in this phase
+          </p>
+        </div>
+      ) : (
+        <div className="bg-gray-50 rounded-md border border-gray-200 overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="text-left p-2 font-medium text-gray-600">Script</th>
+                <th className="text-left p-2 font-medium text-gray-600">Invoker</th>
+                <th className="text-left p-2 font-medium text-gray-600">Product</th>
+                <th className="text-left p-2 font-medium text-gray-600">Context</th>
+                <th className="text-right p-2 font-medium text-gray-600">Mean / Iteration</th>
+                <th className="text-right p-2 font-medium text-gray-600">Max</th>
+                <th className="text-right p-2 font-medium text-gray-600">Iterations</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.key} className="border-t border-gray-200 align-top">
+                  <td className="p-2 text-gray-900 max-w-md">
+                    <div className="font-medium">{row.functionName || '(anonymous)'}</div>
+                    <div className="text-gray-500 break-all" title={row.sourceUrl}>
+                      {row.sourceUrl || '(inline or unknown source)'}
+                    </div>
+                  </td>
+                  <td className="p-2 text-gray-700 max-w-xs">
+                    <div className="break-all" title={row.invoker}>
+                      {row.invoker || '-'}
+                    </div>
+                    <div className="text-gray-500">{row.invokerType}</div>
+                  </td>
+                  <td className="p-2 text-gray-700">{row.product}</td>
+                  <td className="p-2 text-gray-500">{row.contextLabel}</td>
+                  <td className="p-2 text-right font-semibold text-gray-900">
+                    {row.meanDuration.toFixed(1)} ms
+                  </td>
+                  <td className="p-2 text-right text-gray-700">{row.maxDuration.toFixed(1)} ms</td>
+                  <td className="p-2 text-right text-gray-700">
+                    {row.iterationsWithScript}/{row.iterations}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
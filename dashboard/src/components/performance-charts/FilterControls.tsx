@@ -44,6 +44,31 @@ export const FilterControls: React.FC<Props> = ({
     label: userState.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase()),
   }));
 
+  const browserOptions = data.execution_config.browsers.map((browser) => ({
+    value: browser,
+    label: browser.replace(/\b\w/g, (l) => l.toUpperCase()),
+  }));
+
+  const cacheStateOptions = Object.keys(data.execution_matrix.cache_state).map((cacheState) => ({
+    value: cacheState,
+    label: cacheState.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase()),
+  }));
+
+  const deviceOptions = Object.keys(data.execution_matrix.device).map((device) => ({
+    value: device,
+    label: device.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase()),
+  }));
+
+  const userAgentOptions = Object.keys(data.execution_matrix.user_agent).map((userAgent) => ({
+    value: userAgent,
+    label: userAgent.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase()),
+  }));
+
+  const faultOptions = Object.keys(data.execution_matrix.fault).map((fault) => ({
+    value: fault,
+    label: fault.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase()),
+  }));
+
   const chartTypeOptions = [
     { value: 'bar', label: 'Bar Chart' },
     { value: 'line', label: 'Line Chart' },
@@ -116,6 +141,51 @@ export const FilterControls: React.FC<Props> = ({
           onChange={(values) => onFiltersChange({ ...filters, selectedUserStates: values })}
           placeholder="Select user states..."
         />
+
+        {/* Browser Selector */}
+        <MultiSelectDropdown
+          label="Browser"
+          options={browserOptions}
+          selectedValues={filters.selectedBrowsers}
+          onChange={(values) => onFiltersChange({ ...filters, selectedBrowsers: values })}
+          placeholder="Select browsers..."
+        />
+
+        {/* Cache State Selector */}
+        <MultiSelectDropdown
+          label="Cache State"
+          options={cacheStateOptions}
+          selectedValues={filters.selectedCacheStates}
+          onChange={(values) => onFiltersChange({ ...filters, selectedCacheStates: values })}
+          placeholder="Select cache states..."
+        />
+
+        {/* Device Selector */}
+        <MultiSelectDropdown
+          label="Device"
+          options={deviceOptions}
+          selectedValues={filters.selectedDevices}
+          onChange={(values) => onFiltersChange({ ...filters, selectedDevices: values })}
+          placeholder="Select devices..."
+        />
+
+        {/* User Agent Selector */}
+        <MultiSelectDropdown
+          label="User Agent"
+          options={userAgentOptions}
+          selectedValues={filters.selectedUserAgents}
+          onChange={(values) => onFiltersChange({ ...filters, selectedUserAgents: values })}
+          placeholder="Select user agents..."
+        />
+
+        {/* Fault Profile Selector */}
+        <MultiSelectDropdown
+          label="Fault Profile"
+          options={faultOptions}
+          selectedValues={filters.selectedFaults}
+          onChange={(values) => onFiltersChange({ ...filters, selectedFaults: values })}
+          placeholder="Select fault profiles..."
+        />
       </div>
     </div>
   );
@@ -6,6 +6,10 @@ export interface ChartDataPoint {
   cpu: string;
   userState: string;
   browser: string;
+  cacheState: string;
+  device: string;
+  userAgent: string;
+  fault: string;
   mean: number;
   min: number;
   max: number;
@@ -18,6 +22,11 @@ export interface FilterState {
   selectedNetworks: string[];
   selectedCpus: string[];
   selectedUserStates: string[];
+  selectedBrowsers: string[];
+  selectedCacheStates: string[];
+  selectedDevices: string[];
+  selectedUserAgents: string[];
+  selectedFaults: string[];
   chartType: 'bar' | 'line';
   valueType: 'mean' | 'min' | 'max';
 }
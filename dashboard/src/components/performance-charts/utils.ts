@@ -1,9 +1,28 @@
 import { BenchmarkResults } from '@/types/reports';
 import { ChartDataPoint, ContextLegendItem, GroupedDataPoint } from './types';
 
+// Remove a known key, which may contain underscores (e.g. repeat_view), from the end of the parts
+const popKnownKey = (parts: string[], keys: string[]): string => {
+  for (const key of keys) {
+    const keyParts = key.split('_');
+    if (parts.slice(-keyParts.length).join('_') === key) {
+      parts.splice(-keyParts.length);
+      return key;
+    }
+  }
+  return '';
+};
+
 // Parse context key into components
 export const parseContextKey = (contextKey: string, data: BenchmarkResults) => {
   const parts = contextKey.split('_');
+  const fault = popKnownKey(parts, Object.keys(data.execution_matrix.fault));
+  const userAgent = popKnownKey(parts, Object.keys(data.execution_matrix.user_agent));
+  const device = popKnownKey(parts, Object.keys(data.execution_matrix.device));
+  const cacheState = popKnownKey(parts, Object.keys(data.execution_matrix.cache_state));
+
+  // Browser names never contain underscores, so the browser comes right before the cache state
+  const browser = parts.pop() ?? '';
 
   // Find the network value by checking against known network keys
   const networkKeys = Object.keys(data.execution_matrix.network);
@@ -36,12 +55,13 @@ export const parseContextKey = (contextKey: string, data: BenchmarkResults) => {
   // The remaining parts should be the user state
   const userState = finalParts.join('_');
 
-  return { network, cpu, userState };
+  return { network, cpu, userState, browser, cacheState, device, userAgent, fault };
 };
 
 // Format context labels for tooltips (detailed multi-line format)
 export const formatContextLabel = (contextKey: string, data: BenchmarkResults) => {
-  const { network, cpu, userState } = parseContextKey(contextKey, data);
+  const { network, cpu, userState, browser, cacheState, device, userAgent, fault } =
+    parseContextKey(contextKey, data);
 
   const formatPart = (part: string) =>
     part
@@ -49,7 +69,7 @@ export const formatContextLabel = (contextKey: string, data: BenchmarkResults) =
       .replace(/\b\w/g, (l) => l.toUpperCase())
       .replace(/4x/g, '4×');
 
-  return `Network: ${formatPart(network)}\nCPU: ${formatPart(cpu)}\nUser State: ${formatPart(userState)}`;
+  return `Network: ${formatPart(network)}\nCPU: ${formatPart(cpu)}\nUser State: ${formatPart(userState)}\nBrowser: ${formatPart(browser)}\nCache State: ${formatPart(cacheState)}\nDevice: ${formatPart(device)}\nUser Agent: ${formatPart(userAgent)}\nFault: ${formatPart(fault)}`;
 };
 
 // Create a global legend mapping for execution contexts
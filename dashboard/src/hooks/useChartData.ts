@@ -29,6 +29,10 @@ export interface ChartDataPoint {
   cpu: string;
   userState: string;
   browser: string;
+  cacheState: string;
+  device: string;
+  userAgent: string;
+  fault: string;
   mean: number;
   min: number;
   max: number;
@@ -76,8 +80,8 @@ export const usePerformanceChartData = (data: BenchmarkResults | null, filters:
     // Process each product's results
     data.products.forEach((product) => {
       product.results.forEach((result) => {
-        const contextKey = `${result.context.network}_${result.context.cpu}_${result.context.user_state}`;
-        const contextLabel = `${result.context.network} | ${result.context.cpu} | ${result.context.user_state}`;
+        const contextKey = `${result.context.network}_${result.context.cpu}_${result.context.user_state}_${result.context.browser}_${result.context.cache_state}_${result.context.device}_${result.context.user_agent}_${result.context.fault}`;
+        const contextLabel = `${result.context.network} | ${result.context.cpu} | ${result.context.user_state} | ${result.context.browser} | ${result.context.cache_state} | ${result.context.device} | ${result.context.user_agent} | ${result.context.fault}`;
 
         Object.entries(result.metrics).forEach(([metricKey, metricData]) => {
           if (transformedData[metricKey]) {
@@ -89,6 +93,10 @@ export const usePerformanceChartData = (data: BenchmarkResults | null, filters:
               cpu: result.context.cpu,
               userState: result.context.user_state,
               browser: result.context.browser,
+              cacheState: result.context.cache_state,
+              device: result.context.device,
+              userAgent: result.context.user_agent,
+              fault: result.context.fault,
               mean: metricData.statistics.mean,
               min: metricData.statistics.min,
               max: metricData.statistics.max,
@@ -185,6 +193,10 @@ export interface NetworkChartDataPoint {
   cpu: string;
   userState: string;
   browser: string;
+  cacheState: string;
+  device: string;
+  userAgent: string;
+  fault: string;
   mean: number;
   min: number;
   max: number;
@@ -240,8 +252,8 @@ export const useNetworkChartData = (
 
     // Process each context's results
     results.forEach((result) => {
-      const contextKey = `${result.context.network}_${result.context.cpu}_${result.context.user_state}`;
-      const contextLabel = `${result.context.network} | ${result.context.cpu} | ${result.context.user_state}`;
+      const contextKey = `${result.context.network}_${result.context.cpu}_${result.context.user_state}_${result.context.browser}_${result.context.cache_state}_${result.context.device}_${result.context.user_agent}_${result.context.fault}`;
+      const contextLabel = `${result.context.network} | ${result.context.cpu} | ${result.context.user_state} | ${result.context.browser} | ${result.context.cache_state} | ${result.context.device} | ${result.context.user_agent} | ${result.context.fault}`;
 
       result.requests.forEach((request) => {
         const requestKey = request.url;
@@ -261,6 +273,10 @@ export const useNetworkChartData = (
           cpu: result.context.cpu,
           userState: result.context.user_state,
           browser: result.context.browser,
+          cacheState: result.context.cache_state,
+          device: result.context.device,
+          userAgent: result.context.user_agent,
+          fault: result.context.fault,
           mean: request.statistics.mean,
           min: request.statistics.min,
           max: request.statistics.max,
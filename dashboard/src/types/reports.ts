@@ -1,12 +1,15 @@
 // Import types from parent directory first
 import type {
   InitialLoadMetrics,
+  BenchmarkMetric,
   ExecutionContext,
   Measurement,
   MetricStatistics,
   MetricMetadata,
   ContextResults,
   ProductResults,
+  LoadPhase,
+  BlockingScript,
 } from '../../../src/types/metrics';
 
 import type {
@@ -25,6 +28,10 @@ import type {
   NetworkConfig,
   CPUConfig,
   UserStateConfig,
+  DeviceConfig,
+  UserAgentSelectionConfig,
+  FaultConfig,
+  HarConfig,
   BrowserType,
   ExecutionConfig,
   ExecutionMatrixConfig,
@@ -38,12 +45,15 @@ import type { SystemInfo } from '../../../src/utils/system-info';
 // Re-export all imported types with modifications for dashboard compatibility
 export type {
   InitialLoadMetrics,
+  BenchmarkMetric,
   ExecutionContext,
   Measurement,
   MetricStatistics,
   MetricMetadata,
   ContextResults,
   ProductResults,
+  LoadPhase,
+  BlockingScript,
   NetworkRequestType,
   NetworkRequest,
   RequestStatistics,
@@ -56,6 +66,10 @@ export type {
   NetworkConfig,
   CPUConfig,
   UserStateConfig,
+  DeviceConfig,
+  UserAgentSelectionConfig,
+  FaultConfig,
+  HarConfig,
   BrowserType,
   ExecutionConfig,
   ExecutionMatrixConfig,
@@ -71,9 +85,10 @@ export type BenchmarkResults = {
   execution_config: ExecutionConfig;
   execution_matrix: ExecutionMatrixConfig;
   products_config?: ProductConfig[]; // Optional for backward compatibility
-  metrics_metadata: Record<InitialLoadMetrics, MetricMetadata>;
+  metrics_metadata: Record<BenchmarkMetric, MetricMetadata>;
   products: ProductResults[];
   system_info?: SystemInfo; // Optional for backward compatibility
+  har?: HarConfig; // Optional for backward compatibility
 };
 export interface NetworkAnalysisReport {
   timestamp: string;
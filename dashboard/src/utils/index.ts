@@ -1,4 +1,105 @@
-import { ReportFile, BenchmarkResults, NetworkAnalysisReport } from '@/types/reports';
+import {
+  ReportFile,
+  BenchmarkResults,
+  NetworkAnalysisReport,
+  ExecutionContext,
+  ExecutionMatrixConfig,
+} from '@/types/reports';
+
+/**
+ * Matrix dimensions added after the first reports, with the entry older runs measured under
+ */
+const DIMENSION_BASELINES = {
+  cache_state: { key: 'cold', config: { mode: 'cold', enabled: true } },
+  device: {
+    key: 'mobile',
+    config: {
+      viewport: { width: 390, height: 844 },
+      device_scale_factor: 2,
+      is_mobile: true,
+      has_touch: true,
+      enabled: true,
+    },
+  },
+  user_agent: { key: 'default', config: { enabled: true } },
+  fault: { key: 'none', config: { rules: [], enabled: true } },
+} as const;
+
+type LegacyDimension = keyof typeof DIMENSION_BASELINES;
+
+const LEGACY_DIMENSIONS = Object.keys(DIMENSION_BASELINES) as LegacyDimension[];
+
+// Older runs only used Chromium
+const BASELINE_BROWSER = 'chromium';
+
+const withContextDefaults = (context: ExecutionContext): ExecutionContext => {
+  const filled = { ...context };
+  filled.browser ??= BASELINE_BROWSER;
+  for (const dimension of LEGACY_DIMENSIONS) {
+    filled[dimension] ??= DIMENSION_BASELINES[dimension].key;
+  }
+  return filled;
+};
+
+/**
+ * Fill in the matrix dimensions older reports in reports.json lack with their baseline entry, so
+ * their contexts pass the dashboard's filters
+ */
+export const withReportDefaults = (report: ReportFile): ReportFile => {
+  if (report.type === 'network') {
+    const content = report.content as NetworkAnalysisReport;
+    return {
+      ...report,
+      content: {
+        ...content,
+        products: content.products.map((product) => ({
+          ...product,
+          results: product.results.map((result) => ({
+            ...result,
+            context: withContextDefaults(result.context),
+          })),
+        })),
+      },
+    };
+  }
+
+  const content = report.content as BenchmarkResults;
+  const baselineMatrix = Object.fromEntries(
+    LEGACY_DIMENSIONS.map((dimension) => {
+      const { key, config } = DIMENSION_BASELINES[dimension];
+      return [dimension, { [key]: config }];
+    })
+  ) as Pick<ExecutionMatrixConfig, LegacyDimension>;
+
+  return {
+    ...report,
+    content: {
+      ...content,
+      // Older runs picked a random user agent for every browser context
+      execution_config: {
+        ...content.execution_config,
+        browsers: content.execution_config.browsers ?? [BASELINE_BROWSER],
+        user_agent: content.execution_config.user_agent ?? { mode: 'random', seed: 1 },
+      },
+      execution_matrix: { ...baselineMatrix, ...content.execution_matrix },
+      products: content.products.map((product) => ({
+        ...product,
+        results: product.results.map((result) => ({
+          ...result,
+          context: withContextDefaults(result.context),
+        })),
+        failed_iterations: product.failed_iterations?.map((failure) => ({
+          ...failure,
+          combination: withContextDefaults(failure.combination),
+        })),
+        injected_faults: product.injected_faults?.map((fault) => ({
+          ...fault,
+          combination: withContextDefaults(fault.combination),
+        })),
+      })),
+    },
+  };
+};
 
 export const timeToReadable = (timestamp: string) => {
   const date = new Date(timestamp);
@@ -74,7 +175,7 @@ export const convertPerformanceReportToCSV = (report: BenchmarkResults): string
 
   // CSV Header
   rows.push(
-    'Product,Network,CPU,User State,Browser,Metric,Iteration,Value,Unit,Min,Max,Mean,Count'
+    'Product,Network,CPU,User State,Browser,Cache State,Device,User Agent,Fault,Metric,Iteration,Value,Unit,Min,Max,Mean,Count'
   );
 
   // Data rows
@@ -90,6 +191,10 @@ export const convertPerformanceReportToCSV = (report: BenchmarkResults): string
               context.cpu,
               context.user_state,
               context.browser,
+              context.cache_state,
+              context.device,
+              context.user_agent,
+              context.fault,
               metricName,
               measurement.iteration.toString(),
               measurement.value.toString(),
@@ -116,7 +221,7 @@ export const convertNetworkReportToCSV = (report: NetworkAnalysisReport): string
 
   // CSV Header
   rows.push(
-    'Product,Network,CPU,User State,Browser,Request Type,URL,Method,Iteration,Status,Duration,Size,Start Time,End Time'
+    'Product,Network,CPU,User State,Browser,Cache State,Device,User Agent,Fault,Request Type,URL,Method,Iteration,Status,Duration,Size,Start Time,End Time'
   );
 
   // Data rows
@@ -133,6 +238,10 @@ export const convertNetworkReportToCSV = (report: NetworkAnalysisReport): string
               context.cpu,
               context.user_state,
               context.browser,
+              context.cache_state,
+              context.device,
+              context.user_agent,
+              context.fault,
               request.type,
               `"${request.url}"`, // Quote URLs to handle commas
               request.method,
@@ -49,6 +49,7 @@ function consolidatePerformanceResults(resultsDir) {
     execution_matrix: null,
     products_config: null,
     metrics_metadata: null,
+    har: undefined,
     products: [],
     consolidation_info: {
       total_jobs: performanceFiles.length,
@@ -59,6 +60,12 @@ function consolidatePerformanceResults(resultsDir) {
 
   // Track all measurements by product and context for proper statistics calculation
   const measurementsByProductAndContext = new Map();
+  // Injected faults and failed iterations are per iteration, so jobs' lists are simply concatenated
+  const injectedFaultsByProduct = new Map();
+  const failedIterationsByProduct = new Map();
+  // Every job runs iterations 1..n of the same combinations, so each job's iterations are
+  // renumbered to follow the previous jobs' (product -> context key -> iterations so far)
+  const iterationOffsetsByProduct = new Map();
 
   // Process each job result file
   performanceFiles.forEach((file, index) => {
@@ -72,6 +79,7 @@ function consolidatePerformanceResults(resultsDir) {
       consolidated.execution_matrix = data.execution_matrix;
       consolidated.products_config = data.products_config;
       consolidated.metrics_metadata = data.metrics_metadata;
+      consolidated.har = data.har;
     }
 
     // Process each product
@@ -84,6 +92,32 @@ function consolidatePerformanceResults(resultsDir) {
 
       const productContexts = measurementsByProductAndContext.get(productName);
 
+      if (!iterationOffsetsByProduct.has(productName)) {
+        iterationOffsetsByProduct.set(productName, new Map());
+      }
+      const iterationOffsets = iterationOffsetsByProduct.get(productName);
+      const jobIterations = new Map();
+      const renumber = (context, entries) =>
+        (entries || []).map((entry) => {
+          const key = getContextKey(context);
+          jobIterations.set(key, Math.max(jobIterations.get(key) || 0, entry.iteration));
+          return { ...entry, iteration: entry.iteration + (iterationOffsets.get(key) || 0) };
+        });
+
+      if (product.injected_faults) {
+        injectedFaultsByProduct.set(productName, [
+          ...(injectedFaultsByProduct.get(productName) || []),
+          ...product.injected_faults.flatMap((f) => renumber(f.combination, [f])),
+        ]);
+      }
+
+      if (product.failed_iterations) {
+        failedIterationsByProduct.set(productName, [
+          ...(failedIterationsByProduct.get(productName) || []),
+          ...product.failed_iterations.flatMap((f) => renumber(f.combination, [f])),
+        ]);
+      }
+
       product.results.forEach((contextResult) => {
         const contextKey = JSON.stringify(contextResult.context);
 
@@ -91,11 +125,24 @@ function consolidatePerformanceResults(resultsDir) {
           productContexts.set(contextKey, {
             context: contextResult.context,
             metrics: new Map(),
+            long_tasks: [],
+            blocking_scripts: [],
+            trace_breakdowns: [],
           });
         }
 
         const contextData = productContexts.get(contextKey);
 
+        // Long tasks, blocking scripts and trace breakdowns are per iteration, so jobs' lists are
+        // simply concatenated. Trace files stay in their job's results artifact.
+        contextData.long_tasks.push(...renumber(contextResult.context, contextResult.long_tasks));
+        contextData.blocking_scripts.push(
+          ...renumber(contextResult.context, contextResult.blocking_scripts)
+        );
+        contextData.trace_breakdowns.push(
+          ...renumber(contextResult.context, contextResult.trace_breakdowns)
+        );
+
         // Merge measurements for each metric
         Object.entries(contextResult.metrics).forEach(([metricName, metricData]) => {
           if (!contextData.metrics.has(metricName)) {
@@ -103,9 +150,15 @@ function consolidatePerformanceResults(resultsDir) {
           }
 
           // Add all measurements from this job
-          contextData.metrics.get(metricName).push(...metricData.measurements);
+          contextData.metrics
+            .get(metricName)
+            .push(...renumber(contextResult.context, metricData.measurements));
         });
       });
+
+      for (const [key, iterations] of jobIterations) {
+        iterationOffsets.set(key, (iterationOffsets.get(key) || 0) + iterations);
+      }
     });
   });
 
@@ -116,6 +169,8 @@ function consolidatePerformanceResults(resultsDir) {
     productMap.set(productName, {
       product: productName,
       results: [],
+      injected_faults: injectedFaultsByProduct.get(productName) || [],
+      failed_iterations: failedIterationsByProduct.get(productName) || [],
     });
 
     for (const [, contextData] of productContexts) {
@@ -134,6 +189,9 @@ function consolidatePerformanceResults(resultsDir) {
       productMap.get(productName).results.push({
         context: contextData.context,
         metrics: metrics,
+        long_tasks: contextData.long_tasks.sort((a, b) => a.iteration - b.iteration),
+        blocking_scripts: contextData.blocking_scripts.sort((a, b) => a.iteration - b.iteration),
+        trace_breakdowns: contextData.trace_breakdowns.sort((a, b) => a.iteration - b.iteration),
       });
     }
   }
@@ -257,6 +315,10 @@ function generateCSVFromConsolidated(resultsDir, performanceFile) {
     'CPU',
     'User State',
     'Browser',
+    'Cache State',
+    'Device',
+    'User Agent',
+    'Fault',
     'Metric Name',
     'Metric Description',
     'Iterations',
@@ -265,13 +327,19 @@ function generateCSVFromConsolidated(resultsDir, performanceFile) {
     'Max',
     'Mean',
     'Count',
+    'Failed Iterations',
+    'Failures',
   ];
   rows.push(headers.join(','));
 
   // Data rows
   data.products.forEach((productResult) => {
+    const failuresByContext = groupFailuresByContext(productResult.failed_iterations || []);
+
     productResult.results.forEach((contextResult) => {
       const { context } = contextResult;
+      const contextFailures = failuresByContext.get(getContextKey(context)) || [];
+      failuresByContext.delete(getContextKey(context));
 
       Object.entries(contextResult.metrics).forEach(([metricKey, metricData]) => {
         const metadata = data.metrics_metadata[metricKey];
@@ -289,6 +357,10 @@ function generateCSVFromConsolidated(resultsDir, performanceFile) {
           escapeCSV(context.cpu),
           escapeCSV(context.user_state),
           escapeCSV(context.browser),
+          escapeCSV(context.cache_state),
+          escapeCSV(context.device),
+          escapeCSV(context.user_agent),
+          escapeCSV(context.fault),
           escapeCSV(metadata.name),
           escapeCSV(metadata.description),
           escapeCSV(iterationsValues),
@@ -297,10 +369,32 @@ function generateCSVFromConsolidated(resultsDir, performanceFile) {
           (Math.round(statistics.max * 100) / 100).toString(),
           (Math.round(statistics.mean * 100) / 100).toString(),
           statistics.count.toString(),
+          contextFailures.length.toString(),
+          escapeCSV(formatFailures(contextFailures)),
         ];
         rows.push(row.join(','));
       });
     });
+
+    // Combinations where every iteration failed have no metrics, only failures
+    for (const contextFailures of failuresByContext.values()) {
+      const { combination } = contextFailures[0];
+      const row = [
+        escapeCSV(productResult.product),
+        escapeCSV(combination.network),
+        escapeCSV(combination.cpu),
+        escapeCSV(combination.user_state),
+        escapeCSV(combination.browser),
+        escapeCSV(combination.cache_state),
+        escapeCSV(combination.device),
+        escapeCSV(combination.user_agent),
+        escapeCSV(combination.fault),
+        ...['', '', '', '', '', '', '', '0'],
+        contextFailures.length.toString(),
+        escapeCSV(formatFailures(contextFailures)),
+      ];
+      rows.push(row.join(','));
+    }
   });
 
   const csvContent = rows.join('\n');
@@ -313,6 +407,38 @@ function generateCSVFromConsolidated(resultsDir, performanceFile) {
   return csvFilename;
 }
 
+// Same key as getContextKey in src/utils/common.ts
+function getContextKey(context) {
+  return [
+    context.network,
+    context.cpu,
+    context.user_state,
+    context.browser,
+    context.cache_state,
+    context.device,
+    context.user_agent,
+    context.fault,
+  ].join('|');
+}
+
+function groupFailuresByContext(failures) {
+  const groups = new Map();
+  failures.forEach((failure) => {
+    const key = getContextKey(failure.combination);
+    groups.set(key, [...(groups.get(key) || []), failure]);
+  });
+  return groups;
+}
+
+// "#<iteration> <error class> (<attempts> attempts, <timestamp>): <error>", as in the run's own CSV
+function formatFailures(failures) {
+  return failures
+    .map(
+      (f) => `#${f.iteration} ${f.error_class} (${f.attempts} attempts, ${f.timestamp}): ${f.error}`
+    )
+    .join('; ');
+}
+
 function escapeCSV(value) {
   if (typeof value !== 'string') value = String(value);
   if (value.includes(',') || value.includes('"') || value.includes('\n')) {
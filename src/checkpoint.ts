@@ -0,0 +1,168 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { CheckpointConfig, Config } from './types/config';
+import { CheckpointFile, ContextCheckpoint } from './types/checkpoint';
+import { ExecutionContext } from './types/metrics';
+import { ConfigurationError, FileSystemError, createLogger, getContextKey } from './utils';
+
+const CHECKPOINT_VERSION = 1;
+
+/**
+ * Hash of the settings measurements depend on. Resuming with a different value would mix
+ * measurements taken under different conditions, so a mismatch is rejected.
+ */
+function computeFingerprint(config: Config): string {
+  // Toggling entries on or off doesn't change how the others are measured
+  const withoutEnabled = (entries: Record<string, { enabled: boolean }>) =>
+    Object.fromEntries(
+      Object.entries(entries).map(([key, entry]) => [key, { ...entry, enabled: undefined }])
+    );
+
+  const relevant = {
+    network: withoutEnabled(config.execution_matrix.network),
+    cpu: withoutEnabled(config.execution_matrix.cpu),
+    user_state: withoutEnabled(config.execution_matrix.user_state),
+    cache_state: withoutEnabled(config.execution_matrix.cache_state),
+    device: withoutEnabled(config.execution_matrix.device),
+    user_agent: withoutEnabled(config.execution_matrix.user_agent),
+    fault: withoutEnabled(config.execution_matrix.fault),
+    iterations: config.execution.iterations,
+    adaptive: config.execution.adaptive,
+    user_agent_selection: config.execution.user_agent,
+    // Replayed and live loads aren't comparable; recording doesn't change how loads are served
+    har_replay: config.har.mode === 'replay' ? config.har : null,
+  };
+
+  return crypto.createHash('sha256').update(JSON.stringify(relevant)).digest('hex');
+}
+
+/**
+ * Persists benchmark progress per product/combination/iteration so an interrupted run can resume
+ */
+export class CheckpointManager {
+  private config: CheckpointConfig;
+  private fingerprint: string;
+  private state: CheckpointFile;
+  private checkpointLogger: ReturnType<typeof createLogger>;
+
+  constructor(config: Config) {
+    this.config = config.checkpoint;
+    this.fingerprint = computeFingerprint(config);
+    this.checkpointLogger = createLogger('Checkpoint');
+    this.state = this.config.resume ? this.load() : this.createEmptyState();
+  }
+
+  /**
+   * Recorded progress for a product's combination, if any
+   */
+  public getProgress(product: string, context: ExecutionContext): ContextCheckpoint | undefined {
+    return this.state.products[product]?.[getContextKey(context)];
+  }
+
+  /**
+   * Record progress for a product's combination and flush it to disk
+   */
+  public recordProgress(product: string, progress: ContextCheckpoint): void {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    this.state.products[product] ??= {};
+    this.state.products[product][getContextKey(progress.context)] = progress;
+    this.state.updated_at = new Date().toISOString();
+    this.save();
+  }
+
+  /**
+   * Next position in the run's execution order, persisted with the next recorded progress
+   */
+  public nextSequence(): number {
+    this.state.last_sequence += 1;
+    return this.state.last_sequence;
+  }
+
+  /**
+   * Remove the checkpoint file once the run has completed and its results are saved
+   */
+  public clear(): void {
+    if (this.config.enabled && fs.existsSync(this.config.file)) {
+      fs.rmSync(this.config.file);
+      this.checkpointLogger.info('Checkpoint cleared', { file: this.config.file });
+    }
+  }
+
+  private createEmptyState(): CheckpointFile {
+    const now = new Date().toISOString();
+    return {
+      version: CHECKPOINT_VERSION,
+      fingerprint: this.fingerprint,
+      created_at: now,
+      updated_at: now,
+      last_sequence: 0,
+      products: {},
+    };
+  }
+
+  /**
+   * Load the checkpoint file to resume from, starting fresh if there is none
+   */
+  private load(): CheckpointFile {
+    if (!fs.existsSync(this.config.file)) {
+      this.checkpointLogger.warn('No checkpoint found to resume from, starting fresh', {
+        file: this.config.file,
+      });
+      return this.createEmptyState();
+    }
+
+    let state: CheckpointFile;
+    try {
+      state = JSON.parse(fs.readFileSync(this.config.file, 'utf-8')) as CheckpointFile;
+    } catch (error) {
+      throw new FileSystemError(`Failed to read checkpoint file: ${this.config.file}`, {
+        originalError: error,
+      });
+    }
+
+    if (state.version !== CHECKPOINT_VERSION) {
+      throw new ConfigurationError(
+        `Unsupported checkpoint version ${state.version} in ${this.config.file}`,
+        { expected: CHECKPOINT_VERSION }
+      );
+    }
+
+    if (state.fingerprint !== this.fingerprint) {
+      throw new ConfigurationError(
+        `Checkpoint ${this.config.file} was recorded with a different matrix or iteration count. Run without BENCHMARK_RESUME to start over.`
+      );
+    }
+
+    const completed = Object.values(state.products).reduce(
+      (count, contexts) => count + Object.values(contexts).filter((c) => c.complete).length,
+      0
+    );
+    this.checkpointLogger.info('Resuming from checkpoint', {
+      file: this.config.file,
+      createdAt: state.created_at,
+      completedCombinations: completed,
+    });
+
+    return state;
+  }
+
+  /**
+   * Write atomically so a crash mid-write never corrupts the previous checkpoint
+   */
+  private save(): void {
+    const tempFile = `${this.config.file}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.config.file), { recursive: true });
+      fs.writeFileSync(tempFile, JSON.stringify(this.state));
+      fs.renameSync(tempFile, this.config.file);
+    } catch (error) {
+      throw new FileSystemError(`Failed to write checkpoint file: ${this.config.file}`, {
+        originalError: error,
+      });
+    }
+  }
+}
@@ -0,0 +1,455 @@
+import { parseArgs } from 'util';
+import {
+  CONFIG_FILE_ENV_VAR,
+  getDefaultConfig,
+  mergeConfigFile,
+  readConfigFile,
+} from './config-layers';
+import { EXIT_CODES } from './constants/cli';
+import { METRIC_METADATA } from './constants/metrics';
+import { Config } from './types/config';
+import { BenchmarkMetric } from './types/metrics';
+import { ConfigurationError, logger } from './utils';
+
+const PROGRAM_NAME = 'magic-benchmark';
+
+const DEFAULT_COMPARE_THRESHOLD_PERCENT = 10;
+
+/**
+ * Invalid command line; reported with a hint instead of a stack trace
+ */
+class UsageError extends Error {}
+
+type CliOption = {
+  description: string;
+  /**
+   * Placeholder shown in help; options without one are boolean switches, which also take a
+   * `--no-` form when they set an environment variable, to turn off what a config file enables
+   */
+  value?: string | undefined;
+  /**
+   * Environment variable the option sets. Options are applied as environment variables before
+   * the configuration loads, so they layer on top of the config file like env overrides do.
+   */
+  env?: string | undefined;
+};
+
+type CliCommand = {
+  description: string;
+  /** Positional arguments, as shown in help */
+  args?: string | undefined;
+  /** Commands that load the configuration accept every configuration option */
+  loadsConfig: boolean;
+  options?: Record<string, CliOption> | undefined;
+  execute: (
+    positionals: string[],
+    values: Record<string, string | boolean | undefined>
+  ) => Promise<number>;
+};
+
+/**
+ * Options mapping onto the configuration, accepted by every command that loads it
+ */
+const CONFIG_OPTIONS: Record<string, CliOption> = {
+  config: { value: 'file', env: CONFIG_FILE_ENV_VAR, description: 'JSON or YAML config file' },
+  products: { value: 'list', env: 'BENCHMARK_PRODUCTS', description: 'Products to benchmark' },
+  'pom-plugins': {
+    value: 'list',
+    env: 'BENCHMARK_POM_PLUGINS',
+    description: 'Modules registering extra POMs',
+  },
+  network: {
+    value: 'list',
+    env: 'BENCHMARK_NETWORK_CONDITIONS',
+    description: 'Network conditions',
+  },
+  cpu: { value: 'list', env: 'BENCHMARK_CPU_CONDITIONS', description: 'CPU conditions' },
+  'user-states': { value: 'list', env: 'BENCHMARK_USER_STATES', description: 'User states' },
+  browsers: { value: 'list', env: 'BENCHMARK_BROWSERS', description: 'Browser engines' },
+  'cache-states': { value: 'list', env: 'BENCHMARK_CACHE_STATES', description: 'Cache states' },
+  devices: { value: 'list', env: 'BENCHMARK_DEVICES', description: 'Device profiles' },
+  'user-agents': {
+    value: 'list',
+    env: 'BENCHMARK_USER_AGENTS',
+    description: 'User agent profiles',
+  },
+  faults: { value: 'list', env: 'BENCHMARK_FAULTS', description: 'Fault profiles' },
+  iterations: {
+    value: 'n',
+    env: 'BENCHMARK_ITERATIONS',
+    description: 'Iterations per combination',
+  },
+  concurrency: {
+    value: 'n',
+    env: 'BENCHMARK_CONCURRENCY',
+    description: 'Combinations run in parallel',
+  },
+  adaptive: {
+    env: 'BENCHMARK_ADAPTIVE',
+    description: 'Sample until confidence intervals are narrow',
+  },
+  'min-iterations': {
+    value: 'n',
+    env: 'BENCHMARK_MIN_ITERATIONS',
+    description: 'Adaptive minimum',
+  },
+  'max-iterations': {
+    value: 'n',
+    env: 'BENCHMARK_MAX_ITERATIONS',
+    description: 'Adaptive maximum',
+  },
+  scheduling: {
+    value: 'mode',
+    env: 'BENCHMARK_SCHEDULING',
+    description: 'sequential or interleaved',
+  },
+  'scheduling-order': {
+    value: 'order',
+    env: 'BENCHMARK_SCHEDULING_ORDER',
+    description: 'Interleaving order',
+  },
+  'scheduling-seed': {
+    value: 'n',
+    env: 'BENCHMARK_SCHEDULING_SEED',
+    description: 'Seed of the random order',
+  },
+  'interleave-contexts': {
+    env: 'BENCHMARK_INTERLEAVE_CONTEXTS',
+    description: 'Interleave combinations too',
+  },
+  'failure-policy': {
+    value: 'mode',
+    env: 'BENCHMARK_FAILURE_POLICY',
+    description: 'abort, skip or budget',
+  },
+  'max-failure-percentage': {
+    value: 'n',
+    env: 'BENCHMARK_MAX_FAILURE_PERCENTAGE',
+    description: 'Failure budget',
+  },
+  'user-agent-mode': {
+    value: 'mode',
+    env: 'BENCHMARK_USER_AGENT_MODE',
+    description: 'seeded, fixed or random',
+  },
+  'user-agent-seed': {
+    value: 'n',
+    env: 'BENCHMARK_USER_AGENT_SEED',
+    description: 'Seed of seeded user agents',
+  },
+  'user-agent-value': {
+    value: 'ua',
+    env: 'BENCHMARK_USER_AGENT_VALUE',
+    description: 'User agent of fixed mode',
+  },
+  resume: { env: 'BENCHMARK_RESUME', description: 'Resume from the checkpoint file' },
+  'checkpoint-file': {
+    value: 'file',
+    env: 'BENCHMARK_CHECKPOINT_FILE',
+    description: 'Checkpoint file',
+  },
+  'har-mode': { value: 'mode', env: 'BENCHMARK_HAR_MODE', description: 'off, record or replay' },
+  'har-dir': { value: 'dir', env: 'BENCHMARK_HAR_DIR', description: 'HAR archive directory' },
+  'har-think-time': {
+    value: 'ms',
+    env: 'BENCHMARK_HAR_THINK_TIME',
+    description: 'Replayed server time',
+  },
+  tracing: { env: 'BENCHMARK_TRACING', description: 'Save Chrome traces of iterations' },
+  'tracing-sample-every': {
+    value: 'n',
+    env: 'BENCHMARK_TRACING_SAMPLE_EVERY',
+    description: 'Trace every Nth iteration',
+  },
+  'output-dir': { value: 'dir', env: 'BENCHMARK_OUTPUT_DIR', description: 'Results directory' },
+};
+
+const COMMANDS: Record<string, CliCommand> = {
+  run: {
+    description: 'Run the benchmark matrix and save the results (default command)',
+    loadsConfig: true,
+    execute: async () => (await import('./commands/run')).runCommand(),
+  },
+  plan: {
+    description: 'Print the execution plan and time estimate without launching a browser',
+    loadsConfig: true,
+    options: {
+      'max-iterations-per-job': {
+        value: 'n',
+        env: 'BENCHMARK_MAX_ITERATIONS_PER_JOB',
+        description: 'Add a CI sharding plan',
+      },
+      'plan-file': {
+        value: 'file',
+        env: 'BENCHMARK_PLAN_FILE',
+        description: 'Save the plan as JSON',
+      },
+    },
+    execute: async () => (await import('./commands/plan')).planCommand(),
+  },
+  daemon: {
+    description: 'Run the matrix on a cron schedule until stopped',
+    loadsConfig: true,
+    options: {
+      schedule: { value: 'cron', env: 'BENCHMARK_DAEMON_SCHEDULE', description: 'Cron expression' },
+      'spread-minutes': {
+        value: 'n',
+        env: 'BENCHMARK_DAEMON_SPREAD_MINUTES',
+        description: 'Random start offset',
+      },
+      'keep-runs': {
+        value: 'n',
+        env: 'BENCHMARK_DAEMON_KEEP_RUNS',
+        description: 'Run directories kept',
+      },
+    },
+    execute: async () => (await import('./commands/daemon')).daemonCommand(),
+  },
+  consolidate: {
+    description: 'Merge the result files of parallel CI jobs into one report',
+    args: '[results-dir]',
+    loadsConfig: false,
+    execute: async ([resultsDir]) =>
+      (await import('./commands/consolidate')).consolidateCommand(resultsDir ?? './temp-results'),
+  },
+  compare: {
+    description: 'Compare two performance results files and fail on regressions',
+    args: '<baseline.json> <candidate.json>',
+    loadsConfig: false,
+    options: {
+      threshold: {
+        value: 'percent',
+        description: `Median slowdown counted as a regression (default ${DEFAULT_COMPARE_THRESHOLD_PERCENT})`,
+      },
+      metrics: { value: 'list', description: 'Metrics to compare (default: all)' },
+      output: { value: 'file', description: 'Save the comparison as JSON' },
+    },
+    execute: async ([baselineFile, candidateFile], values) => {
+      if (!baselineFile || !candidateFile) {
+        throw new UsageError('compare needs a baseline and a candidate results file');
+      }
+
+      const thresholdPercent =
+        values.threshold !== undefined
+          ? parseFloat(String(values.threshold))
+          : DEFAULT_COMPARE_THRESHOLD_PERCENT;
+      if (isNaN(thresholdPercent) || thresholdPercent < 0) {
+        throw new UsageError(`Invalid threshold: ${values.threshold}`);
+      }
+
+      const metrics = values.metrics !== undefined ? splitList(String(values.metrics)) : undefined;
+      const unknownMetrics = (metrics ?? []).filter((m) => !(m in METRIC_METADATA));
+      if (unknownMetrics.length > 0) {
+        throw new UsageError(
+          `Unknown metrics: ${unknownMetrics.join(', ')}. Available: ${Object.keys(METRIC_METADATA).join(', ')}`
+        );
+      }
+
+      return (await import('./commands/compare')).compareCommand(baselineFile, candidateFile, {
+        thresholdPercent,
+        metrics: metrics as BenchmarkMetric[] | undefined,
+        outputFile: values.output !== undefined ? String(values.output) : undefined,
+      });
+    },
+  },
+  'validate-config': {
+    description: 'Validate the configuration (file, environment and options) and exit',
+    loadsConfig: true,
+    execute: async () => (await import('./commands/validate-config')).validateConfigCommand(),
+  },
+  'list-products': {
+    description: 'List the configured products and whether they are enabled',
+    loadsConfig: true,
+    execute: async () => (await import('./commands/list-products')).listProductsCommand(),
+  },
+};
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+}
+
+function getCommandOptions(command: CliCommand): Record<string, CliOption> {
+  return { ...(command.loadsConfig ? CONFIG_OPTIONS : {}), ...command.options };
+}
+
+function isNegatable(option: CliOption): boolean {
+  return !option.value && option.env !== undefined;
+}
+
+/**
+ * The command to run without one on the command line; the environment flags of earlier releases
+ * still select the plan and daemon modes
+ */
+function getDefaultCommand(): string {
+  if (process.env.BENCHMARK_DRY_RUN === 'true') return 'plan';
+  if (process.env.BENCHMARK_DAEMON === 'true') return 'daemon';
+  return 'run';
+}
+
+/**
+ * Profile keys of the defaults and config file, for help; environment selections don't apply
+ */
+function describeAvailableKeys(): string[] {
+  let config: Config = getDefaultConfig();
+  const configFile = process.env[CONFIG_FILE_ENV_VAR];
+  try {
+    if (configFile) {
+      config = mergeConfigFile(config, readConfigFile(configFile));
+    }
+  } catch (error) {
+    return [`  (config file could not be read: ${error instanceof Error ? error.message : error})`];
+  }
+
+  const matrix = config.execution_matrix;
+  return [
+    `  products:     ${config.products.map((p) => p.name).join(', ')}`,
+    `  network:      ${Object.keys(matrix.network).join(', ')}`,
+    `  cpu:          ${Object.keys(matrix.cpu).join(', ')}`,
+    `  user-states:  ${Object.keys(matrix.user_state).join(', ')}`,
+    `  browsers:     chromium, firefox, webkit`,
+    `  cache-states: ${Object.keys(matrix.cache_state).join(', ')}`,
+    `  devices:      ${Object.keys(matrix.device).join(', ')}`,
+    `  user-agents:  ${Object.keys(matrix.user_agent).join(', ')}`,
+    `  faults:       ${Object.keys(matrix.fault).join(', ')}`,
+    `  metrics:      ${Object.keys(METRIC_METADATA).join(', ')}`,
+  ];
+}
+
+function formatOptions(options: Record<string, CliOption>): string[] {
+  const flags = Object.entries(options).map(([name, option]) =>
+    isNegatable(option) ? `--[no-]${name}` : `--${name}${option.value ? ` <${option.value}>` : ''}`
+  );
+  const width = Math.max(...flags.map((flag) => flag.length)) + 2;
+  return Object.values(options).map(
+    (option, index) =>
+      `  ${flags[index].padEnd(width)}${option.description}${option.env ? ` (${option.env})` : ''}`
+  );
+}
+
+function printHelp(commandName?: string | undefined): void {
+  const lines: string[] = [];
+  const command = commandName ? COMMANDS[commandName] : undefined;
+
+  if (command && commandName) {
+    lines.push(
+      `Usage: ${PROGRAM_NAME} ${commandName}${command.args ? ` ${command.args}` : ''} [options]`
+    );
+    lines.push('', command.description);
+    const options = getCommandOptions(command);
+    if (Object.keys(options).length > 0) {
+      lines.push('', 'Options:', ...formatOptions(options));
+    }
+  } else {
+    lines.push(`Usage: ${PROGRAM_NAME} [command] [options]`, '', 'Commands:');
+    const width = Math.max(...Object.keys(COMMANDS).map((name) => name.length)) + 2;
+    for (const [name, { description }] of Object.entries(COMMANDS)) {
+      lines.push(`  ${name.padEnd(width)}${description}`);
+    }
+    lines.push('', 'Configuration options (run, plan, daemon, validate-config, list-products):');
+    lines.push(...formatOptions(CONFIG_OPTIONS));
+    lines.push('', `Run '${PROGRAM_NAME} <command> --help' for a command's own options.`);
+  }
+
+  if (!command || command.loadsConfig || commandName === 'compare') {
+    lines.push('', 'Available keys (lists are comma-separated):', ...describeAvailableKeys());
+  }
+
+  lines.push(
+    '',
+    'Exit codes:',
+    `  ${EXIT_CODES.SUCCESS}  success`,
+    `  ${EXIT_CODES.FAILURE}  the run or command failed`,
+    `  ${EXIT_CODES.USAGE}  unknown command or option, or a missing argument`,
+    `  ${EXIT_CODES.INVALID_CONFIG}  invalid configuration`,
+    `  ${EXIT_CODES.FAILED_ITERATIONS}  run completed with failed iterations (skip/budget policies)`,
+    `  ${EXIT_CODES.REGRESSION}  compare found a regression`
+  );
+
+  console.log(lines.join('\n'));
+}
+
+/**
+ * Parse the command line, apply its configuration options and run the command.
+ * Resolves to the process exit code.
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [first, ...rest] = argv;
+  const hasCommand = first !== undefined && !first.startsWith('-');
+  const commandName = hasCommand ? first : getDefaultCommand();
+  const command = COMMANDS[commandName];
+
+  if (!command) {
+    logger.error(`Unknown command: ${commandName}. Run '${PROGRAM_NAME} --help' for usage.`);
+    return EXIT_CODES.USAGE;
+  }
+
+  const options = getCommandOptions(command);
+  let parsed: ReturnType<typeof parseArgs>;
+  try {
+    parsed = parseArgs({
+      args: hasCommand ? rest : argv,
+      allowPositionals: true,
+      options: {
+        help: { type: 'boolean', short: 'h' },
+        ...Object.fromEntries(
+          Object.entries(options).flatMap(([name, option]) => [
+            [name, { type: option.value ? ('string' as const) : ('boolean' as const) }],
+            ...(isNegatable(option) ? [[`no-${name}`, { type: 'boolean' as const }]] : []),
+          ])
+        ),
+      },
+    });
+  } catch (error) {
+    logger.error(
+      `${error instanceof Error ? error.message : error}. Run '${PROGRAM_NAME} ${commandName} --help' for usage.`
+    );
+    return EXIT_CODES.USAGE;
+  }
+
+  for (const [name, option] of Object.entries(options)) {
+    let value = parsed.values[name];
+    if (isNegatable(option) && parsed.values[`no-${name}`]) {
+      if (value !== undefined) {
+        logger.error(
+          `Options --${name} and --no-${name} conflict. Run '${PROGRAM_NAME} ${commandName} --help' for usage.`
+        );
+        return EXIT_CODES.USAGE;
+      }
+      value = false;
+    }
+    if (option.env && value !== undefined) {
+      process.env[option.env] = String(value);
+    }
+  }
+
+  // Help lists the profile keys of the config file given with --config, so it comes after
+  if (parsed.values.help) {
+    printHelp(hasCommand ? commandName : undefined);
+    return EXIT_CODES.SUCCESS;
+  }
+
+  try {
+    // No option is declared multiple, so values are never arrays
+    return await command.execute(
+      parsed.positionals,
+      parsed.values as Record<string, string | boolean | undefined>
+    );
+  } catch (error) {
+    if (error instanceof UsageError) {
+      logger.error(`${error.message}. Run '${PROGRAM_NAME} ${commandName} --help' for usage.`);
+      return EXIT_CODES.USAGE;
+    }
+    if (error instanceof ConfigurationError) {
+      logger.error(error.message);
+      return EXIT_CODES.INVALID_CONFIG;
+    }
+    logger.error(
+      `Command ${commandName} failed`,
+      error instanceof Error ? error : new Error(String(error))
+    );
+    return EXIT_CODES.FAILURE;
+  }
+}
@@ -0,0 +1,47 @@
+import fs from 'fs';
+import { compareResults, printComparison } from '../comparison';
+import { EXIT_CODES } from '../constants/cli';
+import { BenchmarkResults, BenchmarkMetric } from '../types/metrics';
+import { FileSystemError, logger } from '../utils';
+
+function readResultsFile(file: string): BenchmarkResults {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as BenchmarkResults;
+  } catch (error) {
+    throw new FileSystemError(`Failed to read results file: ${file}`, { originalError: error });
+  }
+}
+
+/**
+ * Compare two performance results files, failing when a metric regressed beyond the threshold
+ */
+export const compareCommand = async (
+  baselineFile: string,
+  candidateFile: string,
+  options: {
+    thresholdPercent: number;
+    metrics?: BenchmarkMetric[] | undefined;
+    outputFile?: string | undefined;
+  }
+): Promise<number> => {
+  const comparison = compareResults(
+    readResultsFile(baselineFile),
+    readResultsFile(candidateFile),
+    options
+  );
+  printComparison(comparison);
+
+  if (options.outputFile) {
+    fs.writeFileSync(options.outputFile, JSON.stringify(comparison, null, 2));
+    logger.info(`Comparison saved to: ${options.outputFile}`);
+  }
+
+  if (comparison.comparisons.length === 0) {
+    logger.error('The results have no product, combination and metric in common');
+    return EXIT_CODES.FAILURE;
+  }
+
+  return comparison.comparisons.some((c) => c.regressed)
+    ? EXIT_CODES.REGRESSION
+    : EXIT_CODES.SUCCESS;
+};
@@ -0,0 +1,26 @@
+import { spawn } from 'child_process';
+import path from 'path';
+import { EXIT_CODES } from '../constants/cli';
+import { logger } from '../utils';
+
+/**
+ * Script merging the results of parallel CI jobs; it runs with plain Node, so CI jobs that only
+ * consolidate don't need a build
+ */
+const CONSOLIDATE_SCRIPT = path.resolve(__dirname, '..', '..', 'scripts', 'consolidate-results.js');
+
+/**
+ * Consolidate the per-job result files in a directory into a single report
+ */
+export const consolidateCommand = (resultsDir: string): Promise<number> =>
+  new Promise((resolve) => {
+    const child = spawn(process.execPath, [CONSOLIDATE_SCRIPT, resultsDir], { stdio: 'inherit' });
+
+    child.on('error', (error) => {
+      logger.error('Failed to start consolidation', error);
+      resolve(EXIT_CODES.FAILURE);
+    });
+    child.on('close', (code) => {
+      resolve(code === 0 ? EXIT_CODES.SUCCESS : EXIT_CODES.FAILURE);
+    });
+  });
@@ -0,0 +1,11 @@
+import { CONFIG } from '../config';
+import { BenchmarkDaemon } from '../daemon';
+import { EXIT_CODES } from '../constants/cli';
+
+/**
+ * Run the matrix on the configured schedule until the process is stopped
+ */
+export const daemonCommand = async (): Promise<number> => {
+  await new BenchmarkDaemon(CONFIG).start();
+  return EXIT_CODES.SUCCESS;
+};
@@ -0,0 +1,17 @@
+import { CONFIG } from '../config';
+import { EXIT_CODES } from '../constants/cli';
+import { logger } from '../utils';
+
+/**
+ * List the configured products and whether the resolved configuration runs them
+ */
+export const listProductsCommand = async (): Promise<number> => {
+  logger.info(`\n📋 Products (${CONFIG.products.length}):`);
+  for (const product of CONFIG.products) {
+    logger.info(
+      `  ${product.name}: ${product.enabled ? '✅ Enabled' : '❌ Disabled'} (${product.entry_url}, POM: ${product.pom_file})`
+    );
+  }
+
+  return EXIT_CODES.SUCCESS;
+};
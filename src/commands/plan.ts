@@ -0,0 +1,26 @@
+import fs from 'fs';
+import path from 'path';
+import { CONFIG } from '../config';
+import { buildExecutionPlan, printExecutionPlan } from '../planner';
+import { EXIT_CODES } from '../constants/cli';
+import { logger } from '../utils';
+
+/**
+ * Print (and optionally save) the execution plan without launching a browser
+ */
+export const planCommand = async (): Promise<number> => {
+  const maxIterationsPerJob = process.env.BENCHMARK_MAX_ITERATIONS_PER_JOB
+    ? parseInt(process.env.BENCHMARK_MAX_ITERATIONS_PER_JOB, 10)
+    : undefined;
+  const plan = buildExecutionPlan(CONFIG, { maxIterationsPerJob });
+  printExecutionPlan(plan);
+
+  const planFile = process.env.BENCHMARK_PLAN_FILE;
+  if (planFile) {
+    fs.mkdirSync(path.dirname(planFile), { recursive: true });
+    fs.writeFileSync(planFile, JSON.stringify(plan, null, 2));
+    logger.info(`Execution plan saved to: ${planFile}`);
+  }
+
+  return EXIT_CODES.SUCCESS;
+};
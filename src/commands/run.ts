@@ -0,0 +1,130 @@
+import { CONFIG } from '../config';
+import { TestExecutor } from '../executor';
+import { ResultsManager } from '../results-manager';
+import { CheckpointManager } from '../checkpoint';
+import { InterleavedScheduler } from '../scheduler';
+import { loadProductPOMs } from '../pom-registry';
+import { EXIT_CODES } from '../constants/cli';
+import { logger } from '../utils';
+
+/**
+ * Hand a finished product's performance and network results to the results manager
+ */
+const collectResults = (resultsManager: ResultsManager, testExecutor: TestExecutor) => {
+  const productName = testExecutor.getProduct().name;
+
+  // Collect performance results
+  const productResults = testExecutor.getResults();
+  resultsManager.addProductResults(productResults);
+
+  // Collect network results
+  const networkResults = testExecutor.getNetworkResults();
+  resultsManager.addNetworkResults(networkResults);
+
+  // Check for failures and log them
+  if (testExecutor.hasFailures()) {
+    const failures = testExecutor.getFailedIterations();
+    logger.warn(
+      `⚠️  Completed benchmarking with ${failures.length} failed iterations for ${productName}`
+    );
+  } else {
+    logger.info(
+      `✅ Completed benchmarking performance of ${productName} - all iterations successful`
+    );
+  }
+};
+
+/**
+ * Benchmark every enabled product across the execution matrix and save the results
+ */
+export const runCommand = async (): Promise<number> => {
+  logger.info('Starting Performance Benchmarking');
+  logger.info('='.repeat(60));
+
+  // Log product configuration
+  logger.info('\n📋 Product Configuration:');
+  for (const product of CONFIG.products) {
+    logger.info(`  ${product.name}: ${product.enabled ? '✅ Enabled' : '❌ Disabled'}`);
+  }
+  logger.info('');
+
+  if (
+    CONFIG.har.mode === 'replay' &&
+    Object.values(CONFIG.execution_matrix.cache_state).some(
+      (cacheState) => cacheState.enabled && cacheState.mode !== 'cold'
+    )
+  ) {
+    logger.warn(
+      '⚠️  HAR replay routes every request, which disables the HTTP cache: warm and repeat-view loads are measured like cold loads'
+    );
+  }
+
+  // Unresolvable POMs are configuration errors, reported before anything is launched
+  await loadProductPOMs(CONFIG);
+
+  const resultsManager = new ResultsManager(CONFIG);
+  const checkpoint = new CheckpointManager(CONFIG);
+  const executors: TestExecutor[] = [];
+  let failed = false;
+
+  // Capture system information for baseline context
+  logger.info('📊 Capturing system information...');
+  await resultsManager.initializeSystemInfo();
+  logger.info('✅ System information captured');
+
+  if (CONFIG.execution.scheduling.mode === 'interleaved') {
+    executors.push(
+      ...CONFIG.products
+        .filter((product) => product.enabled)
+        .map((product) => new TestExecutor(product, checkpoint))
+    );
+    try {
+      logger.info(
+        `\nBenchmarking performance of ${executors.map((e) => e.getProduct().name).join(', ')} (interleaved)`
+      );
+      await new InterleavedScheduler(executors, CONFIG, checkpoint).run();
+      executors.forEach((testExecutor) => collectResults(resultsManager, testExecutor));
+    } catch (error) {
+      logger.error(`Failed to benchmark performance: ${error}`);
+      failed = true;
+    }
+  } else {
+    for (const product of CONFIG.products) {
+      try {
+        if (!product.enabled) {
+          logger.info(`Skipping ${product.name} as it is not enabled`);
+          continue;
+        }
+        logger.info(`\nBenchmarking performance of ${product.name}`);
+        const testExecutor = new TestExecutor(product, checkpoint);
+        executors.push(testExecutor);
+        await testExecutor.run();
+        collectResults(resultsManager, testExecutor);
+      } catch (error) {
+        logger.error(`Failed to benchmark performance of ${product.name}: ${error}`);
+        failed = true;
+        break;
+      }
+    }
+  }
+
+  if (failed) {
+    // Keep the products that finished; the checkpoint stays so the run can be resumed
+    if (resultsManager.hasProductResults()) {
+      await resultsManager.saveAllResults();
+    }
+    return EXIT_CODES.FAILURE;
+  }
+
+  // Save all results (performance and network) using unified method
+  await resultsManager.saveAllResults();
+
+  // Results are safely on disk, so there is nothing left to resume
+  checkpoint.clear();
+
+  logger.info('\n🎉 All performance benchmarking completed!');
+
+  return executors.some((testExecutor) => testExecutor.hasFailures())
+    ? EXIT_CODES.FAILED_ITERATIONS
+    : EXIT_CODES.SUCCESS;
+};
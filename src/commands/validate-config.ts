@@ -0,0 +1,30 @@
+import { CONFIG } from '../config';
+import { generateExecutionCombinations } from '../planner';
+import { loadProductPOMs, pomRegistry } from '../pom-registry';
+import { EXIT_CODES } from '../constants/cli';
+import { logger } from '../utils';
+
+/**
+ * Report that the configuration is valid; importing CONFIG already rejected an invalid one, and
+ * resolving the enabled products' POMs rejects any the registry cannot load
+ */
+export const validateConfigCommand = async (): Promise<number> => {
+  await loadProductPOMs(CONFIG);
+
+  const combinations = generateExecutionCombinations(CONFIG);
+  if (combinations.length === 0) {
+    logger.error(
+      'Configuration enables no combinations: every matrix dimension needs an enabled entry'
+    );
+    return EXIT_CODES.INVALID_CONFIG;
+  }
+
+  logger.info('✅ Configuration is valid', {
+    enabledProducts: CONFIG.products.filter((p) => p.enabled).map((p) => p.name),
+    registeredPOMs: pomRegistry.getRegisteredNames(),
+    combinations: combinations.length,
+    iterations: CONFIG.execution.iterations,
+  });
+
+  return EXIT_CODES.SUCCESS;
+};
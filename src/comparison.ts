@@ -0,0 +1,134 @@
+import { METRIC_METADATA } from './constants/metrics';
+import { MetricComparison, ResultsComparison } from './types/comparison';
+import { BenchmarkResults, BenchmarkMetric, Measurement } from './types/metrics';
+import { calculateStatistics, createLogger, getContextKey } from './utils';
+
+const comparisonLogger = createLogger('Comparison');
+
+/**
+ * Medians rather than means, so a single outlier iteration doesn't fail a comparison
+ */
+function median(measurements: Measurement[]): number {
+  return calculateStatistics(measurements.map((m) => m.value)).median;
+}
+
+/**
+ * Compare the median of every metric a baseline and a candidate run both measured, per product
+ * and combination. A metric regressed when its median got slower by more than the threshold.
+ */
+export function compareResults(
+  baseline: BenchmarkResults,
+  candidate: BenchmarkResults,
+  options: { thresholdPercent: number; metrics?: BenchmarkMetric[] | undefined }
+): ResultsComparison {
+  const comparisons: MetricComparison[] = [];
+  const unmatched: string[] = [];
+
+  for (const baselineProduct of baseline.products) {
+    const candidateProduct = candidate.products.find((p) => p.product === baselineProduct.product);
+    if (!candidateProduct) {
+      unmatched.push(`${baselineProduct.product}: only in baseline`);
+      continue;
+    }
+
+    for (const baselineContext of baselineProduct.results) {
+      const contextKey = getContextKey(baselineContext.context);
+      const candidateContext = candidateProduct.results.find(
+        (r) => getContextKey(r.context) === contextKey
+      );
+      if (!candidateContext) {
+        unmatched.push(`${baselineProduct.product} [${contextKey}]: only in baseline`);
+        continue;
+      }
+
+      const metrics =
+        options.metrics ?? (Object.keys(baselineContext.metrics) as BenchmarkMetric[]);
+      for (const metric of metrics) {
+        const baselineMeasurements = baselineContext.metrics[metric]?.measurements ?? [];
+        const candidateMeasurements = candidateContext.metrics[metric]?.measurements ?? [];
+        if (baselineMeasurements.length === 0 || candidateMeasurements.length === 0) {
+          unmatched.push(
+            `${baselineProduct.product} [${contextKey}] ${metric}: not measured in both runs`
+          );
+          continue;
+        }
+
+        const baselineMedian = median(baselineMeasurements);
+        const candidateMedian = median(candidateMeasurements);
+        const changePercent =
+          baselineMedian > 0
+            ? Math.round(((candidateMedian - baselineMedian) / baselineMedian) * 10000) / 100
+            : 0;
+
+        comparisons.push({
+          product: baselineProduct.product,
+          context: baselineContext.context,
+          metric,
+          baseline_median: baselineMedian,
+          candidate_median: candidateMedian,
+          change_percent: changePercent,
+          regressed: changePercent > options.thresholdPercent,
+        });
+      }
+    }
+  }
+
+  for (const candidateProduct of candidate.products) {
+    const baselineProduct = baseline.products.find((p) => p.product === candidateProduct.product);
+    if (!baselineProduct) {
+      unmatched.push(`${candidateProduct.product}: only in candidate`);
+      continue;
+    }
+
+    for (const candidateContext of candidateProduct.results) {
+      const contextKey = getContextKey(candidateContext.context);
+      if (!baselineProduct.results.some((r) => getContextKey(r.context) === contextKey)) {
+        unmatched.push(`${candidateProduct.product} [${contextKey}]: only in candidate`);
+      }
+    }
+  }
+
+  return {
+    baseline_timestamp: baseline.timestamp,
+    candidate_timestamp: candidate.timestamp,
+    threshold_percent: options.thresholdPercent,
+    comparisons,
+    unmatched,
+  };
+}
+
+/**
+ * Log a human-readable summary of a comparison, regressions first
+ */
+export function printComparison(comparison: ResultsComparison): void {
+  const regressions = comparison.comparisons.filter((c) => c.regressed);
+  const formatChange = (c: MetricComparison) =>
+    `${c.baseline_median}ms → ${c.candidate_median}ms (${c.change_percent > 0 ? '+' : ''}${c.change_percent}%)`;
+  const formatMetric = (c: MetricComparison) =>
+    `${c.product} [${getContextKey(c.context)}] ${METRIC_METADATA[c.metric]?.name ?? c.metric}`;
+
+  comparisonLogger.info('\n📊 Results Comparison');
+  comparisonLogger.info('='.repeat(60));
+  comparisonLogger.info(`Baseline:  ${comparison.baseline_timestamp}`);
+  comparisonLogger.info(`Candidate: ${comparison.candidate_timestamp}`);
+  comparisonLogger.info(`Regression threshold: +${comparison.threshold_percent}% on the median`);
+
+  if (regressions.length > 0) {
+    comparisonLogger.warn(`\n❌ Regressions (${regressions.length}):`);
+    for (const c of regressions) {
+      comparisonLogger.warn(`  ${formatMetric(c)}: ${formatChange(c)}`);
+    }
+  }
+
+  comparisonLogger.info(`\nAll compared metrics (${comparison.comparisons.length}):`);
+  for (const c of comparison.comparisons) {
+    comparisonLogger.info(`  ${c.regressed ? '❌' : '✅'} ${formatMetric(c)}: ${formatChange(c)}`);
+  }
+
+  if (comparison.unmatched.length > 0) {
+    comparisonLogger.warn(`\nNot compared (${comparison.unmatched.length}):`);
+    for (const entry of comparison.unmatched) {
+      comparisonLogger.warn(`  ${entry}`);
+    }
+  }
+}
@@ -0,0 +1,366 @@
+/**
+ * Configuration layers that resolve without loading CONFIG: the defaults and the config file.
+ * Environment variable overrides and validation are applied on top in ./config.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { Config, ProductConfig } from './types/config';
+import { ValidationUtils, ConfigurationError, FileSystemError, USER_AGENTS } from './utils';
+
+/**
+ * Environment variable pointing at a JSON or YAML configuration file
+ */
+export const CONFIG_FILE_ENV_VAR = 'BENCHMARK_CONFIG_FILE';
+
+const SUPPORTED_CONFIG_EXTENSIONS = ['json', 'yaml', 'yml'];
+
+/**
+ * Default configuration used as fallback when env variable is not available
+ */
+export function getDefaultConfig(): Config {
+  return {
+    pom_plugins: [],
+    products: [
+      {
+        name: 'MagicCheckout',
+        entry_url: 'https://razorpay.com/demopg3/',
+        pom_file: 'magic-checkout',
+        enabled: true,
+      },
+      {
+        name: 'Gokwik',
+        entry_url: 'https://neemans.com/collections/all-products',
+        pom_file: 'gokwik',
+        enabled: true,
+      },
+    ],
+    execution_matrix: {
+      network: {
+        slow_4g: {
+          download_throughput: 200000, // 200kbps
+          upload_throughput: 100000, // 200kbps
+          latency: 500, // 400ms
+          connection_type: 'cellular3g',
+          enabled: false,
+        },
+        fast_4g: {
+          download_throughput: 1500000, // 1.5Mbps
+          upload_throughput: 500000, // 500kbps
+          latency: 150, // 150ms
+          connection_type: 'cellular4g',
+          enabled: false,
+        },
+        no_throttling: {
+          download_throughput: -1,
+          upload_throughput: -1,
+          latency: 0,
+          connection_type: 'wifi',
+          enabled: true,
+        },
+      },
+      cpu: {
+        no_throttling: {
+          rate: 1, // High-end devices (flagship phones, desktops)
+          enabled: true,
+        },
+        '2x_slowdown': {
+          rate: 4,
+          enabled: true,
+        },
+        '4x_slowdown': {
+          rate: 6,
+          enabled: false,
+        },
+      },
+      user_state: {
+        new_user: {
+          is_logged_in: false,
+          enabled: true,
+        },
+        returning_user: {
+          is_logged_in: true,
+          enabled: false,
+        },
+      },
+      cache_state: {
+        cold: {
+          mode: 'cold',
+          enabled: true,
+        },
+        warm: {
+          mode: 'warm',
+          enabled: false,
+        },
+        repeat_view: {
+          mode: 'repeat_view',
+          enabled: false,
+        },
+      },
+      device: {
+        mobile: {
+          viewport: {
+            width: 390,
+            height: 844,
+          },
+          device_scale_factor: 2, // Retina/high-DPI display
+          is_mobile: true,
+          has_touch: true,
+          enabled: true,
+        },
+        low_end_android: {
+          descriptor: 'Moto G4',
+          enabled: false,
+        },
+        desktop: {
+          descriptor: 'Desktop Chrome',
+          enabled: false,
+        },
+      },
+      user_agent: {
+        default: {
+          enabled: true,
+        },
+        android_chrome: {
+          value: USER_AGENTS[0],
+          enabled: false,
+        },
+        iphone_safari: {
+          value: USER_AGENTS[4],
+          enabled: false,
+        },
+      },
+      fault: {
+        none: {
+          rules: [],
+          enabled: true,
+        },
+      },
+    },
+    execution: {
+      iterations: 1,
+      timeout: 60000,
+      headless: true,
+      browsers: ['chromium'],
+      concurrency: 1,
+      retry: {
+        max_attempts: 3, // Total attempts (1 initial + 2 retries)
+        delay_between_retries: 5000, // 5 seconds delay for slow networks
+      },
+      failure_policy: {
+        mode: 'abort',
+        max_failure_percentage: 20,
+      },
+      scheduling: {
+        mode: 'sequential',
+        order: 'round_robin',
+        seed: 1,
+        interleave_contexts: false,
+      },
+      adaptive: {
+        enabled: false,
+        metric: 'total_load_time',
+        min_iterations: 5,
+        max_iterations: 30,
+        target_relative_width: 0.1,
+        confidence_level: 0.95,
+      },
+      user_agent: {
+        mode: 'seeded',
+        seed: 1,
+      },
+    },
+    output: {
+      formats: ['json', 'csv'],
+      directory: './dashboard/public/results',
+    },
+    checkpoint: {
+      enabled: true,
+      file: './checkpoints/benchmark-checkpoint.json',
+      resume: false,
+    },
+    har: {
+      mode: 'off',
+      directory: './har',
+      think_time_ms: 0,
+    },
+    tracing: {
+      enabled: false,
+      sample_every: 1,
+    },
+    daemon: {
+      schedule: '0 */6 * * *',
+      spread_minutes: 60,
+      keep_runs: 28,
+    },
+  };
+}
+
+/**
+ * Read and parse a JSON or YAML configuration file
+ */
+export function readConfigFile(filePath: string): Record<string, unknown> {
+  const resolvedPath = path.resolve(filePath);
+
+  if (!ValidationUtils.hasValidExtension(resolvedPath, SUPPORTED_CONFIG_EXTENSIONS)) {
+    throw new ConfigurationError(
+      `Unsupported config file extension. Supported: ${SUPPORTED_CONFIG_EXTENSIONS.join(', ')}`,
+      { filePath: resolvedPath }
+    );
+  }
+
+  let rawContent: string;
+  try {
+    rawContent = fs.readFileSync(resolvedPath, 'utf8');
+  } catch (error) {
+    throw new FileSystemError(`Unable to read config file: ${resolvedPath}`, {
+      originalError: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = resolvedPath.endsWith('.json') ? JSON.parse(rawContent) : YAML.parse(rawContent);
+  } catch (error) {
+    throw new ConfigurationError(`Unable to parse config file: ${resolvedPath}`, {
+      originalError: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  if (!isPlainObject(parsed)) {
+    throw new ConfigurationError('Config file must contain an object at the top level', {
+      filePath: resolvedPath,
+    });
+  }
+
+  return parsed;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge named entries (network/CPU/user state/device/user agent/fault profiles) by key.
+ * Existing entries are patched, new entries are added as-is and checked by the validator.
+ */
+function mergeNamedEntries<T>(base: Record<string, T>, overrides: unknown): Record<string, T> {
+  if (!isPlainObject(overrides)) {
+    return base;
+  }
+
+  const merged: Record<string, T> = { ...base };
+  for (const [key, entry] of Object.entries(overrides)) {
+    merged[key] = (
+      isPlainObject(entry) && isPlainObject(base[key]) ? { ...base[key], ...entry } : entry
+    ) as T;
+  }
+  return merged;
+}
+
+/**
+ * Merge products by name - matching products are patched, new products are appended
+ */
+function mergeProducts(base: ProductConfig[], overrides: unknown): ProductConfig[] {
+  if (!Array.isArray(overrides)) {
+    return base;
+  }
+
+  const merged = [...base];
+  for (const product of overrides) {
+    const index = isPlainObject(product)
+      ? merged.findIndex((existing) => existing.name === product.name)
+      : -1;
+    if (index >= 0) {
+      merged[index] = { ...merged[index], ...(product as Partial<ProductConfig>) };
+    } else {
+      merged.push(product as ProductConfig);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Layer a config file on top of the given configuration
+ */
+export function mergeConfigFile(base: Config, fileConfig: Record<string, unknown>): Config {
+  const {
+    products,
+    pom_plugins,
+    execution_matrix,
+    execution,
+    output,
+    checkpoint,
+    har,
+    tracing,
+    daemon,
+  } = fileConfig;
+  const matrix = isPlainObject(execution_matrix) ? execution_matrix : {};
+
+  return {
+    products: mergeProducts(base.products, products),
+    pom_plugins: pom_plugins ?? base.pom_plugins,
+    execution_matrix: {
+      network: mergeNamedEntries(base.execution_matrix.network, matrix.network),
+      cpu: mergeNamedEntries(base.execution_matrix.cpu, matrix.cpu),
+      user_state: mergeNamedEntries(base.execution_matrix.user_state, matrix.user_state),
+      cache_state: mergeNamedEntries(base.execution_matrix.cache_state, matrix.cache_state),
+      device: mergeNamedEntries(base.execution_matrix.device, matrix.device),
+      user_agent: mergeNamedEntries(base.execution_matrix.user_agent, matrix.user_agent),
+      fault: mergeNamedEntries(base.execution_matrix.fault, matrix.fault),
+    },
+    execution: {
+      ...base.execution,
+      ...(isPlainObject(execution) ? execution : {}),
+      retry: {
+        ...base.execution.retry,
+        ...(isPlainObject(execution) && isPlainObject(execution.retry) ? execution.retry : {}),
+      },
+      failure_policy: {
+        ...base.execution.failure_policy,
+        ...(isPlainObject(execution) && isPlainObject(execution.failure_policy)
+          ? execution.failure_policy
+          : {}),
+      },
+      scheduling: {
+        ...base.execution.scheduling,
+        ...(isPlainObject(execution) && isPlainObject(execution.scheduling)
+          ? execution.scheduling
+          : {}),
+      },
+      adaptive: {
+        ...base.execution.adaptive,
+        ...(isPlainObject(execution) && isPlainObject(execution.adaptive)
+          ? execution.adaptive
+          : {}),
+      },
+      user_agent: {
+        ...base.execution.user_agent,
+        ...(isPlainObject(execution) && isPlainObject(execution.user_agent)
+          ? execution.user_agent
+          : {}),
+      },
+    },
+    output: {
+      ...base.output,
+      ...(isPlainObject(output) ? output : {}),
+    },
+    checkpoint: {
+      ...base.checkpoint,
+      ...(isPlainObject(checkpoint) ? checkpoint : {}),
+    },
+    har: {
+      ...base.har,
+      ...(isPlainObject(har) ? har : {}),
+    },
+    tracing: {
+      ...base.tracing,
+      ...(isPlainObject(tracing) ? tracing : {}),
+    },
+    daemon: {
+      ...base.daemon,
+      ...(isPlainObject(daemon) ? daemon : {}),
+    },
+  } as Config;
+}
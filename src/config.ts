@@ -1,180 +1,257 @@
-import { Config } from './types/config';
+import {
+  BrowserType,
+  Config,
+  ExecutionMatrixConfig,
+  FailurePolicyMode,
+  HarMode,
+  SchedulingMode,
+  SchedulingOrder,
+  UserAgentMode,
+} from './types/config';
+import {
+  CONFIG_FILE_ENV_VAR,
+  getDefaultConfig,
+  mergeConfigFile,
+  readConfigFile,
+} from './config-layers';
 import { ValidationUtils, ConfigurationError, logger } from './utils';
 
+export { mergeConfigFile, readConfigFile } from './config-layers';
+
 /**
- * Default configuration used as fallback when env variable is not available
+ * Parse a comma-separated environment variable into trimmed, non-empty values
  */
-function getDefaultConfig(): Config {
-  return {
-    products: [
-      {
-        name: 'MagicCheckout',
-        entry_url: 'https://razorpay.com/demopg3/',
-        pom_file: 'magic-checkout',
-        enabled: true,
-      },
-      {
-        name: 'Gokwik',
-        entry_url: 'https://neemans.com/collections/all-products',
-        pom_file: 'gokwik',
-        enabled: true,
-      },
-    ],
-    execution_matrix: {
-      network: {
-        slow_4g: {
-          download_throughput: 200000, // 200kbps
-          upload_throughput: 100000, // 200kbps
-          latency: 500, // 400ms
-          connection_type: 'cellular3g',
-          enabled: true,
-        },
-        fast_4g: {
-          download_throughput: 1500000, // 1.5Mbps
-          upload_throughput: 500000, // 500kbps
-          latency: 150, // 150ms
-          connection_type: 'cellular4g',
-          enabled: true,
-        },
-        no_throttling: {
-          download_throughput: -1,
-          upload_throughput: -1,
-          latency: 0,
-          connection_type: 'wifi',
-          enabled: true,
-        },
-      },
-      cpu: {
-        no_throttling: {
-          rate: 1, // High-end devices (flagship phones, desktops)
-          enabled: true,
-        },
-        '2x_slowdown': {
-          rate: 4,
-          enabled: true,
-        },
-        '4x_slowdown': {
-          rate: 6,
-          enabled: true,
-        },
-      },
-      user_state: {
-        new_user: {
-          is_logged_in: false,
-          enabled: true,
-        },
-      },
-    },
-    execution: {
-      iterations: 1,
-      timeout: 60000,
-      headless: true,
-      browsers: ['chromium'],
-      viewport: {
-        width: 390,
-        height: 844,
-      },
-      retry: {
-        max_attempts: 3, // Total attempts (1 initial + 2 retries)
-        delay_between_retries: 5000, // 5 seconds delay for slow networks
-      },
-    },
-    output: {
-      formats: ['json', 'csv'],
-      directory: './dashboard/public/results',
-    },
-  };
+function parseCommaSeparatedEnvVar(name: string): string[] | undefined {
+  const value = process.env[name];
+  if (!value) {
+    return undefined;
+  }
+  return value
+    .split(',')
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
 }
 
 /**
- * Build configuration from comma-separated environment variables
+ * Enable exactly the selected keys of a matrix dimension, rejecting unknown keys
  */
-function buildConfigFromCommaSeparatedEnvVars(): Config {
-  const defaultConfig = getDefaultConfig();
+function selectEntries<T extends { enabled: boolean }>(
+  dimension: keyof ExecutionMatrixConfig,
+  entries: Record<string, T>,
+  selected: string[] | undefined
+): Record<string, T> {
+  if (!selected) {
+    return entries;
+  }
 
-  // Parse iterations
-  const iterations = process.env.BENCHMARK_ITERATIONS
-    ? parseInt(process.env.BENCHMARK_ITERATIONS, 10)
-    : defaultConfig.execution.iterations;
+  const unknownKeys = selected.filter((key) => !(key in entries));
+  if (unknownKeys.length > 0) {
+    throw new ConfigurationError(
+      `Unknown ${dimension} conditions: ${unknownKeys.join(', ')}. Available: ${Object.keys(entries).join(', ')}`,
+      { dimension, unknownKeys }
+    );
+  }
 
-  // Parse comma-separated network conditions
-  const networkConditions = process.env.BENCHMARK_NETWORK_CONDITIONS
-    ? process.env.BENCHMARK_NETWORK_CONDITIONS.split(',').map((s) => s.trim())
-    : ['no_throttling'];
+  return Object.fromEntries(
+    Object.entries(entries).map(([key, entry]) => [
+      key,
+      { ...entry, enabled: selected.includes(key) },
+    ])
+  );
+}
 
-  // Parse comma-separated CPU conditions
-  const cpuConditions = process.env.BENCHMARK_CPU_CONDITIONS
-    ? process.env.BENCHMARK_CPU_CONDITIONS.split(',').map((s) => s.trim())
-    : ['2x_slowdown', 'no_throttling'];
+/**
+ * Apply comma-separated environment variable overrides on top of the given configuration
+ */
+function applyEnvOverrides(base: Config): Config {
+  const iterations = process.env.BENCHMARK_ITERATIONS
+    ? parseInt(process.env.BENCHMARK_ITERATIONS, 10)
+    : base.execution.iterations;
 
-  // Parse comma-separated products
-  const products = process.env.BENCHMARK_PRODUCTS
-    ? process.env.BENCHMARK_PRODUCTS.split(',').map((s) => s.trim())
-    : ['MagicCheckout', 'Gokwik'];
+  const networkConditions = parseCommaSeparatedEnvVar('BENCHMARK_NETWORK_CONDITIONS');
+  const cpuConditions = parseCommaSeparatedEnvVar('BENCHMARK_CPU_CONDITIONS');
+  const userStates = parseCommaSeparatedEnvVar('BENCHMARK_USER_STATES');
+  const cacheStates = parseCommaSeparatedEnvVar('BENCHMARK_CACHE_STATES');
+  const devices = parseCommaSeparatedEnvVar('BENCHMARK_DEVICES');
+  const userAgents = parseCommaSeparatedEnvVar('BENCHMARK_USER_AGENTS');
+  const faults = parseCommaSeparatedEnvVar('BENCHMARK_FAULTS');
+  const products = parseCommaSeparatedEnvVar('BENCHMARK_PRODUCTS');
+  const pomPlugins = parseCommaSeparatedEnvVar('BENCHMARK_POM_PLUGINS');
+  const concurrency = process.env.BENCHMARK_CONCURRENCY
+    ? parseInt(process.env.BENCHMARK_CONCURRENCY, 10)
+    : base.execution.concurrency;
+  // Unknown browser names are rejected by the execution config validator
+  const browsers = parseCommaSeparatedEnvVar('BENCHMARK_BROWSERS') as BrowserType[] | undefined;
+  // Unknown modes are rejected by the execution config validator
+  const failurePolicy = {
+    mode:
+      (process.env.BENCHMARK_FAILURE_POLICY as FailurePolicyMode | undefined) ||
+      base.execution.failure_policy.mode,
+    max_failure_percentage: process.env.BENCHMARK_MAX_FAILURE_PERCENTAGE
+      ? parseFloat(process.env.BENCHMARK_MAX_FAILURE_PERCENTAGE)
+      : base.execution.failure_policy.max_failure_percentage,
+  };
+  // Unknown modes and orders are rejected by the execution config validator
+  const scheduling = {
+    mode:
+      (process.env.BENCHMARK_SCHEDULING as SchedulingMode | undefined) ||
+      base.execution.scheduling.mode,
+    order:
+      (process.env.BENCHMARK_SCHEDULING_ORDER as SchedulingOrder | undefined) ||
+      base.execution.scheduling.order,
+    seed: process.env.BENCHMARK_SCHEDULING_SEED
+      ? parseInt(process.env.BENCHMARK_SCHEDULING_SEED, 10)
+      : base.execution.scheduling.seed,
+    interleave_contexts: process.env.BENCHMARK_INTERLEAVE_CONTEXTS
+      ? process.env.BENCHMARK_INTERLEAVE_CONTEXTS === 'true'
+      : base.execution.scheduling.interleave_contexts,
+  };
+  const adaptive = {
+    ...base.execution.adaptive,
+    enabled: process.env.BENCHMARK_ADAPTIVE
+      ? process.env.BENCHMARK_ADAPTIVE === 'true'
+      : base.execution.adaptive.enabled,
+    min_iterations: process.env.BENCHMARK_MIN_ITERATIONS
+      ? parseInt(process.env.BENCHMARK_MIN_ITERATIONS, 10)
+      : base.execution.adaptive.min_iterations,
+    max_iterations: process.env.BENCHMARK_MAX_ITERATIONS
+      ? parseInt(process.env.BENCHMARK_MAX_ITERATIONS, 10)
+      : base.execution.adaptive.max_iterations,
+  };
+  // Unknown modes and a missing fixed value are rejected by the execution config validator
+  const userAgent = {
+    mode:
+      (process.env.BENCHMARK_USER_AGENT_MODE as UserAgentMode | undefined) ||
+      base.execution.user_agent.mode,
+    seed: process.env.BENCHMARK_USER_AGENT_SEED
+      ? parseInt(process.env.BENCHMARK_USER_AGENT_SEED, 10)
+      : base.execution.user_agent.seed,
+    value: process.env.BENCHMARK_USER_AGENT_VALUE || base.execution.user_agent.value,
+  };
 
-  logger.info('Configuration built from comma-separated environment variables', {
+  logger.info('Applying environment variable overrides', {
     iterations,
     networkConditions,
     cpuConditions,
+    userStates,
+    cacheStates,
+    devices,
+    userAgents,
+    faults,
     products,
+    pomPlugins,
+    browsers,
+    concurrency,
+    failurePolicy,
+    scheduling,
+    adaptive,
+    userAgent,
+    resume: process.env.BENCHMARK_RESUME,
+    harMode: process.env.BENCHMARK_HAR_MODE,
+    tracing: process.env.BENCHMARK_TRACING,
+    outputDirectory: process.env.BENCHMARK_OUTPUT_DIR,
+    runId: process.env.BENCHMARK_RUN_ID,
+    daemonSchedule: process.env.BENCHMARK_DAEMON_SCHEDULE,
   });
 
-  // Build the configuration
-  const config: Config = {
-    products: defaultConfig.products.map((product) => ({
-      ...product,
-      enabled: products.includes(product.name),
-    })),
+  if (products) {
+    const unknownProducts = products.filter((name) => !base.products.some((p) => p.name === name));
+    if (unknownProducts.length > 0) {
+      throw new ConfigurationError(
+        `Unknown products: ${unknownProducts.join(', ')}. Available: ${base.products.map((p) => p.name).join(', ')}`,
+        { unknownProducts }
+      );
+    }
+  }
+
+  return {
+    ...base,
+    products: products
+      ? base.products.map((product) => ({ ...product, enabled: products.includes(product.name) }))
+      : base.products,
+    pom_plugins: pomPlugins ?? base.pom_plugins,
     execution_matrix: {
-      network: {
-        slow_4g: {
-          ...defaultConfig.execution_matrix.network.slow_4g,
-          enabled: networkConditions.includes('slow_4g'),
-        },
-        fast_4g: {
-          ...defaultConfig.execution_matrix.network.fast_4g,
-          enabled: networkConditions.includes('fast_4g'),
-        },
-        no_throttling: {
-          ...defaultConfig.execution_matrix.network.no_throttling,
-          enabled: networkConditions.includes('no_throttling'),
-        },
-      },
-      cpu: {
-        no_throttling: {
-          ...defaultConfig.execution_matrix.cpu.no_throttling,
-          enabled: cpuConditions.includes('no_throttling'),
-        },
-        '2x_slowdown': {
-          ...defaultConfig.execution_matrix.cpu['2x_slowdown'],
-          enabled: cpuConditions.includes('2x_slowdown'),
-        },
-        '4x_slowdown': {
-          ...defaultConfig.execution_matrix.cpu['4x_slowdown'],
-          enabled: cpuConditions.includes('4x_slowdown'),
-        },
-      },
-      user_state: defaultConfig.execution_matrix.user_state,
+      ...base.execution_matrix,
+      network: selectEntries('network', base.execution_matrix.network, networkConditions),
+      cpu: selectEntries('cpu', base.execution_matrix.cpu, cpuConditions),
+      user_state: selectEntries('user_state', base.execution_matrix.user_state, userStates),
+      cache_state: selectEntries('cache_state', base.execution_matrix.cache_state, cacheStates),
+      device: selectEntries('device', base.execution_matrix.device, devices),
+      user_agent: selectEntries('user_agent', base.execution_matrix.user_agent, userAgents),
+      fault: selectEntries('fault', base.execution_matrix.fault, faults),
+    },
+    checkpoint: {
+      ...base.checkpoint,
+      file: process.env.BENCHMARK_CHECKPOINT_FILE || base.checkpoint.file,
+      resume: process.env.BENCHMARK_RESUME
+        ? process.env.BENCHMARK_RESUME === 'true'
+        : base.checkpoint.resume,
+    },
+    // Unknown modes are rejected by the HAR config validator
+    har: {
+      mode: (process.env.BENCHMARK_HAR_MODE as HarMode | undefined) || base.har.mode,
+      directory: process.env.BENCHMARK_HAR_DIR || base.har.directory,
+      think_time_ms: process.env.BENCHMARK_HAR_THINK_TIME
+        ? parseInt(process.env.BENCHMARK_HAR_THINK_TIME, 10)
+        : base.har.think_time_ms,
+    },
+    tracing: {
+      enabled: process.env.BENCHMARK_TRACING
+        ? process.env.BENCHMARK_TRACING === 'true'
+        : base.tracing.enabled,
+      sample_every: process.env.BENCHMARK_TRACING_SAMPLE_EVERY
+        ? parseInt(process.env.BENCHMARK_TRACING_SAMPLE_EVERY, 10)
+        : base.tracing.sample_every,
+    },
+    output: {
+      ...base.output,
+      directory: process.env.BENCHMARK_OUTPUT_DIR || base.output.directory,
+      run_id: process.env.BENCHMARK_RUN_ID || base.output.run_id,
+    },
+    daemon: {
+      schedule: process.env.BENCHMARK_DAEMON_SCHEDULE || base.daemon.schedule,
+      spread_minutes: process.env.BENCHMARK_DAEMON_SPREAD_MINUTES
+        ? parseInt(process.env.BENCHMARK_DAEMON_SPREAD_MINUTES, 10)
+        : base.daemon.spread_minutes,
+      keep_runs: process.env.BENCHMARK_DAEMON_KEEP_RUNS
+        ? parseInt(process.env.BENCHMARK_DAEMON_KEEP_RUNS, 10)
+        : base.daemon.keep_runs,
     },
     execution: {
-      ...defaultConfig.execution,
+      ...base.execution,
       iterations,
+      browsers: browsers ?? base.execution.browsers,
+      concurrency,
+      failure_policy: failurePolicy,
+      scheduling,
+      adaptive,
+      user_agent: userAgent,
     },
-    output: defaultConfig.output,
   };
+}
+
+/**
+ * Build the raw configuration by layering defaults < config file < environment variables
+ */
+function buildLayeredConfig(): Config {
+  let config = getDefaultConfig();
 
-  return config;
+  const configFile = process.env[CONFIG_FILE_ENV_VAR];
+  if (configFile) {
+    config = mergeConfigFile(config, readConfigFile(configFile));
+    logger.info('Configuration file loaded', { configFile });
+  }
+
+  return applyEnvOverrides(config);
 }
 
 /**
  * Load and validate configuration with comprehensive error handling
  */
 function loadConfig(): Config {
-  const rawConfig = buildConfigFromCommaSeparatedEnvVars();
-
   try {
     // Validate configuration
-    const validatedConfig = ValidationUtils.validateConfig(rawConfig);
+    const validatedConfig = ValidationUtils.validateConfig(buildLayeredConfig());
     logger.info('Configuration loaded and validated successfully', {
       productsCount: validatedConfig.products.length,
       enabledProducts: validatedConfig.products.filter((p) => p.enabled).length,
@@ -0,0 +1,16 @@
+/**
+ * Process exit codes of the CLI, so CI steps can gate on the outcome
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  /** The run or command failed */
+  FAILURE: 1,
+  /** Unknown command, option or missing argument */
+  USAGE: 2,
+  /** The configuration (file, environment variables or flags) is invalid */
+  INVALID_CONFIG: 3,
+  /** The run completed, but some iterations failed (skip and budget failure policies) */
+  FAILED_ITERATIONS: 4,
+  /** compare found a metric that regressed beyond the threshold */
+  REGRESSION: 5,
+};
@@ -1,7 +1,21 @@
-import { InitialLoadMetrics, MetricMetadata } from '../types/metrics';
+import {
+  BenchmarkMetric,
+  InitialLoadMetrics,
+  InteractionMetrics,
+  LoadPhase,
+  MainThreadMetrics,
+  MetricDefinition,
+  MetricMetadata,
+  PostLoadInteraction,
+  WebVitalsMetrics,
+} from '../types/metrics';
+import { PERFORMANCE_MARKERS } from './performance';
 
 export const METRICS: {
   initial_load: Record<InitialLoadMetrics, MetricMetadata>;
+  web_vitals: Record<WebVitalsMetrics, MetricMetadata>;
+  main_thread: Record<MainThreadMetrics, MetricMetadata>;
+  interactions: Record<InteractionMetrics, MetricMetadata>;
 } = {
   initial_load: {
     total_load_time: {
@@ -35,4 +49,119 @@ export const METRICS: {
         'The time from the user clicks the checkout button to the mobile number input field appears on the popup',
     },
   },
+  web_vitals: {
+    fcp: {
+      name: 'First Contentful Paint',
+      description:
+        'The time from the user clicks the checkout button to the first text or image painted in the checkout frame',
+    },
+    lcp: {
+      name: 'Largest Contentful Paint',
+      description:
+        'The time from the user clicks the checkout button to the largest text or image in the checkout frame is painted',
+    },
+    cls: {
+      name: 'Cumulative Layout Shift',
+      description:
+        'The largest burst of unexpected layout shifts in the checkout frame while it loads (score, lower is better)',
+    },
+    inp: {
+      name: 'Interaction to Next Paint',
+      description:
+        'The longest time from an interaction in the checkout frame to the next paint; only recorded when the checkout is interacted with',
+    },
+  },
+  main_thread: {
+    tbt_click_to_popup: {
+      name: 'TBT: Click to Popup',
+      description:
+        'Total Blocking Time (the part of each long task beyond 50ms) from the user clicks the checkout button to the checkout popup appears',
+    },
+    tbt_popup_to_content: {
+      name: 'TBT: Popup to Content',
+      description:
+        'Total Blocking Time from the checkout popup appears to the mobile number input field appears',
+    },
+    tbt_content_to_interactive: {
+      name: 'TBT: Content to Interactive',
+      description:
+        'Total Blocking Time from the mobile number input field appears till the main thread is idle',
+    },
+  },
+  interactions: {
+    inp_type_contact_number: {
+      name: 'INP: Type Contact Number',
+      description:
+        'The longest time from a key press to the next paint while typing a mobile number into the loaded checkout',
+    },
+    inp_tap_continue: {
+      name: 'INP: Tap Continue',
+      description: 'The time from tapping Continue after the mobile number to the next paint',
+    },
+    inp_open_coupons: {
+      name: 'INP: Open Coupons',
+      description:
+        'The time from tapping the coupons entry of the loaded checkout to the next paint',
+    },
+  },
+};
+
+/**
+ * Milestones each metric spans. POMs only report when milestones were reached, so every product's
+ * metrics are derived the same way; a metric is skipped when either milestone was not reported.
+ */
+export const METRIC_DEFINITIONS: Record<InitialLoadMetrics, MetricDefinition> = {
+  total_load_time: {
+    start: PERFORMANCE_MARKERS.CHECKOUT_START,
+    end: PERFORMANCE_MARKERS.MAIN_THREAD_IDLE,
+  },
+  tti_internal: {
+    start: PERFORMANCE_MARKERS.CHECKOUT_START,
+    end: PERFORMANCE_MARKERS.COUPON_LOAD_END,
+  },
+  click_to_popup: {
+    start: PERFORMANCE_MARKERS.CHECKOUT_START,
+    end: PERFORMANCE_MARKERS.POPUP_APPEARS,
+  },
+  popup_to_content: {
+    start: PERFORMANCE_MARKERS.POPUP_APPEARS,
+    end: PERFORMANCE_MARKERS.CONTENT_APPEARS,
+  },
+  content_to_interactive: {
+    start: PERFORMANCE_MARKERS.CONTENT_APPEARS,
+    end: PERFORMANCE_MARKERS.MAIN_THREAD_IDLE,
+  },
+  click_to_content: {
+    start: PERFORMANCE_MARKERS.CHECKOUT_START,
+    end: PERFORMANCE_MARKERS.CONTENT_APPEARS,
+  },
+};
+
+/**
+ * Metadata of every metric a run can record
+ */
+export const METRIC_METADATA: Record<BenchmarkMetric, MetricMetadata> = {
+  ...METRICS.initial_load,
+  ...METRICS.web_vitals,
+  ...METRICS.main_thread,
+  ...METRICS.interactions,
+};
+
+/**
+ * The load phase each TBT metric covers, in load order; phase boundaries come from
+ * METRIC_DEFINITIONS
+ */
+export const TBT_PHASES: Record<MainThreadMetrics, LoadPhase> = {
+  tbt_click_to_popup: 'click_to_popup',
+  tbt_popup_to_content: 'popup_to_content',
+  tbt_content_to_interactive: 'content_to_interactive',
+};
+
+/**
+ * The metric each post-load interaction records
+ */
+export const INTERACTION_METRICS: Record<PostLoadInteraction, InteractionMetrics> = {
+  type_contact_number: 'inp_type_contact_number',
+  tap_continue: 'inp_tap_continue',
+  open_coupons: 'inp_open_coupons',
 };
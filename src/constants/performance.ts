@@ -1,6 +1,21 @@
+import { PostLoadInteraction } from '../types/metrics';
+
 export const PERFORMANCE_MARKERS = {
   CHECKOUT_START: 'checkout_start',
   POPUP_APPEARS: 'popup_appears',
   CONTENT_APPEARS: 'content_appears',
   MAIN_THREAD_IDLE: 'main_thread_idle',
+  /** Custom milestone: Magic Checkout's own coupon-load-end mark */
+  COUPON_LOAD_END: 'coupon_load_end',
 };
+
+/**
+ * Mobile number typed by the type_contact_number interaction; deliberately not a real user's
+ */
+export const INTERACTION_CONTACT_NUMBER = '9000000000';
+
+/**
+ * Post-load interactions that submit the checkout: Continue sends an OTP to the typed number. They
+ * only run for products listing them in `interactions`, and POMs perform them last.
+ */
+export const SUBMITTING_INTERACTIONS: PostLoadInteraction[] = ['tap_continue'];
@@ -0,0 +1,186 @@
+import { ChildProcess, spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { Config } from './types/config';
+import {
+  CronSchedule,
+  createLogger,
+  formatDuration,
+  getNextCronTime,
+  parseCronExpression,
+} from './utils';
+
+/**
+ * Longest delay setTimeout supports; longer waits are re-armed
+ */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const RUN_ID_PREFIX = 'run-';
+
+/**
+ * Runs the configured matrix on a cron schedule, each run in a child process writing to its own
+ * directory under `<output.directory>/runs`. A slot is skipped while the previous run is still
+ * going, and only the newest `keep_runs` run directories are kept.
+ */
+export class BenchmarkDaemon {
+  private config: Config;
+  private schedule: CronSchedule;
+  private runsDirectory: string;
+  private daemonLogger: ReturnType<typeof createLogger>;
+  private activeRun: Promise<void> | undefined;
+  private child: ChildProcess | undefined;
+  /** Wakes every pending sleep (the next slot and a run's spread offset) on stop */
+  private wakers = new Set<() => void>();
+  private stopping = false;
+
+  constructor(config: Config) {
+    this.config = config;
+    this.schedule = parseCronExpression(config.daemon.schedule);
+    this.runsDirectory = path.join(config.output.directory, 'runs');
+    this.daemonLogger = createLogger('Daemon');
+  }
+
+  /**
+   * Schedule runs until the process receives SIGINT or SIGTERM
+   */
+  public async start(): Promise<void> {
+    process.once('SIGINT', () => this.stop('SIGINT'));
+    process.once('SIGTERM', () => this.stop('SIGTERM'));
+
+    this.daemonLogger.info('Benchmark daemon started', {
+      schedule: this.schedule.expression,
+      spreadMinutes: this.config.daemon.spread_minutes,
+      keepRuns: this.config.daemon.keep_runs,
+      runsDirectory: this.runsDirectory,
+    });
+
+    while (!this.stopping) {
+      const slot = getNextCronTime(this.schedule, new Date());
+      this.daemonLogger.info(`Next run slot: ${slot.toISOString()}`);
+      await this.sleepUntil(slot);
+      if (this.stopping) break;
+
+      if (this.activeRun) {
+        this.daemonLogger.warn('Skipping run slot: the previous run is still going', {
+          slot: slot.toISOString(),
+        });
+        continue;
+      }
+
+      this.activeRun = this.runSlot().finally(() => {
+        this.activeRun = undefined;
+      });
+    }
+
+    await this.activeRun;
+    this.daemonLogger.info('Benchmark daemon stopped');
+  }
+
+  /**
+   * Stop scheduling and end the active run; its checkpoint stays in the run directory
+   */
+  private stop(signal: NodeJS.Signals): void {
+    this.daemonLogger.info(`Received ${signal}, stopping`);
+    this.stopping = true;
+    this.child?.kill(signal);
+    this.wakers.forEach((wake) => wake());
+  }
+
+  private async sleepUntil(time: Date): Promise<void> {
+    while (!this.stopping && Date.now() < time.getTime()) {
+      await new Promise<void>((resolve) => {
+        const wake = () => {
+          clearTimeout(timer);
+          this.wakers.delete(wake);
+          resolve();
+        };
+        const timer = setTimeout(wake, Math.min(time.getTime() - Date.now(), MAX_TIMER_MS));
+        this.wakers.add(wake);
+      });
+    }
+  }
+
+  /**
+   * Start a run at a random offset into the spread window, so runs sample different backend load
+   * than a fixed time of day would
+   */
+  private async runSlot(): Promise<void> {
+    const offsetMs = Math.random() * this.config.daemon.spread_minutes * 60 * 1000;
+    if (offsetMs > 0) {
+      this.daemonLogger.info(`Starting run in ${formatDuration(offsetMs)}`);
+      await this.sleepUntil(new Date(Date.now() + offsetMs));
+    }
+    if (this.stopping) return;
+
+    const runId = `${RUN_ID_PREFIX}${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    const runDirectory = path.join(this.runsDirectory, runId);
+    const startedAt = Date.now();
+
+    this.daemonLogger.info(`Starting run ${runId}`, { directory: runDirectory });
+    const exitCode = await this.spawnRun(runId, runDirectory);
+    const duration = formatDuration(Date.now() - startedAt);
+
+    if (exitCode === 0) {
+      this.daemonLogger.info(`Run ${runId} completed in ${duration}`);
+    } else {
+      this.daemonLogger.warn(`Run ${runId} failed after ${duration}`, { exitCode });
+    }
+
+    this.rotateRuns();
+  }
+
+  /**
+   * Run the benchmark in a child process of the same entry point, so a crashing run or one that
+   * calls process.exit doesn't take the daemon down
+   */
+  private spawnRun(runId: string, runDirectory: string): Promise<number | null> {
+    const entry = require.main?.filename ?? process.argv[1];
+    const args = [...(entry.endsWith('.ts') ? ['-r', 'ts-node/register'] : []), entry, 'run'];
+
+    return new Promise((resolve) => {
+      const child = spawn(process.execPath, args, {
+        stdio: 'inherit',
+        env: {
+          ...process.env,
+          BENCHMARK_DAEMON: 'false',
+          BENCHMARK_RUN_ID: runId,
+          BENCHMARK_OUTPUT_DIR: runDirectory,
+          BENCHMARK_CHECKPOINT_FILE: path.join(runDirectory, 'checkpoint.json'),
+          BENCHMARK_RESUME: 'false',
+        },
+      });
+      this.child = child;
+
+      child.on('error', (error) => {
+        this.daemonLogger.warn(`Failed to start run ${runId}`, { error: error.message });
+        this.child = undefined;
+        resolve(null);
+      });
+      child.on('close', (code) => {
+        this.child = undefined;
+        resolve(code);
+      });
+    });
+  }
+
+  /**
+   * Delete the oldest run directories beyond keep_runs. Run IDs are timestamps, so name order is
+   * start order.
+   */
+  private rotateRuns(): void {
+    if (!fs.existsSync(this.runsDirectory)) {
+      return;
+    }
+
+    const runs = fs
+      .readdirSync(this.runsDirectory, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && entry.name.startsWith(RUN_ID_PREFIX))
+      .map((entry) => entry.name)
+      .sort();
+
+    for (const run of runs.slice(0, Math.max(0, runs.length - this.config.daemon.keep_runs))) {
+      fs.rmSync(path.join(this.runsDirectory, run), { recursive: true, force: true });
+      this.daemonLogger.info(`Deleted old run ${run}`);
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { Page, Route } from 'playwright';
+import { FaultConfig, FaultRule } from './types/config';
+import { createLogger, delay } from './utils';
+
+const faultLogger = createLogger('FaultInjection');
+
+/**
+ * A request a fault rule was applied to
+ */
+export type AppliedFault = {
+  url: string;
+  rule: FaultRule;
+};
+
+/**
+ * Route a page's requests through a fault profile's rules. The first matching rule that fires
+ * (by its probability) applies; requests it passes on (not fired, or delayed) continue to later
+ * rules and to routes registered before, such as route-based throttling.
+ *
+ * Note that routing disables the HTTP cache, so profiles without rules register no routes at all.
+ */
+export async function applyFaultProfile(
+  page: Page,
+  profile: FaultConfig,
+  onFault: (fault: AppliedFault) => void
+): Promise<void> {
+  // Routes registered last are matched first, so register the profile's rules in reverse
+  for (const rule of [...profile.rules].reverse()) {
+    await page.route(rule.url_pattern, (route) => injectFault(route, rule, onFault));
+  }
+}
+
+async function injectFault(
+  route: Route,
+  rule: FaultRule,
+  onFault: (fault: AppliedFault) => void
+): Promise<void> {
+  const url = route.request().url();
+
+  try {
+    if (Math.random() >= (rule.probability ?? 1)) {
+      await route.fallback();
+      return;
+    }
+
+    onFault({ url, rule });
+    faultLogger.debug('Injecting fault', { url, pattern: rule.url_pattern, action: rule.action });
+
+    switch (rule.action) {
+      case 'abort':
+        await route.abort('failed');
+        return;
+      case 'delay':
+        await delay(rule.delay_ms!);
+        await route.fallback();
+        return;
+      case 'status':
+        await route.fulfill({ status: rule.status!, body: '' });
+        return;
+    }
+  } catch (error) {
+    // The page closed while the request was held
+    faultLogger.debug('Fault injection failed', {
+      url,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
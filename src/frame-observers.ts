@@ -0,0 +1,81 @@
+import { Frame, Page } from 'playwright';
+
+/**
+ * What an observer's init script keeps on each frame's window: whether the browser reports the
+ * observed entry type, and the entries on that frame's own performance timeline
+ */
+export type FrameState<T> = {
+  supported: boolean;
+  time_origin: number;
+  entries: T[];
+};
+
+/**
+ * Run an observer's init script in every frame the page loads, before the frame's own scripts, so
+ * checkout iframes are observed from their start. Playwright serializes the script into the page,
+ * so it must stay self-contained; it keeps its state on the window under `globalName`.
+ */
+export async function installFrameObserver(
+  page: Page,
+  observer: (globalName: string) => void,
+  globalName: string
+): Promise<void> {
+  await page.addInitScript(observer, globalName);
+}
+
+/**
+ * The state an observer keeps on a frame's window; null when the frame has none, or is detached
+ * or navigating
+ */
+export async function readFrameState<S>(frame: Frame, globalName: string): Promise<S | null> {
+  try {
+    return await frame.evaluate(
+      (name) => ((window as unknown as Record<string, unknown>)[name] as S) ?? null,
+      globalName
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Milliseconds to add to a frame's performance timestamps to move them onto the page's timeline
+ */
+export async function getTimelineOffset(page: Page, frameTimeOrigin: number): Promise<number> {
+  const pageTimeOrigin = await page.evaluate(() => performance.timeOrigin);
+  return frameTimeOrigin - pageTimeOrigin;
+}
+
+/**
+ * Entries an observer kept in every frame of the page, moved onto the page's timeline and in start
+ * order. `toEntry` turns each into the collected entry, or drops it by returning null. Null when
+ * the browser does not report the observed entry type.
+ */
+export async function collectFrameEntries<T extends { start: number }, R extends { start: number }>(
+  page: Page,
+  globalName: string,
+  toEntry: (entry: T, frame: Frame, isMainFrame: boolean) => R | null
+): Promise<R[] | null> {
+  const pageTimeOrigin = await page.evaluate(() => performance.timeOrigin);
+  const collected: R[] = [];
+
+  for (const frame of page.frames()) {
+    const observed = await readFrameState<FrameState<T>>(frame, globalName);
+    if (!observed) continue;
+
+    const isMainFrame = frame === page.mainFrame();
+    if (isMainFrame && !observed.supported) {
+      return null;
+    }
+
+    const offset = observed.time_origin - pageTimeOrigin;
+    for (const entry of observed.entries) {
+      const collectedEntry = toEntry({ ...entry, start: entry.start + offset }, frame, isMainFrame);
+      if (collectedEntry) {
+        collected.push(collectedEntry);
+      }
+    }
+  }
+
+  return collected.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+import { Page, Route } from 'playwright';
+import { HarConfig, NetworkConfig, ProductConfig } from './types/config';
+import { NetworkConditions, conditionsAt, transferTimeMs } from './throttling';
+import { FileSystemError, createLogger, delay, sanitizeFilename } from './utils';
+
+const harLogger = createLogger('HarReplay');
+
+/**
+ * The part of a HAR 1.2 entry replay needs
+ */
+type HarEntry = {
+  request: { method: string; url: string };
+  response: {
+    status: number;
+    headers: Array<{ name: string; value: string }>;
+    content: { text?: string | undefined; encoding?: string | undefined };
+  };
+};
+
+/**
+ * Headers describing how the body was transferred; replayed bodies are already decoded
+ */
+const TRANSFER_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding'];
+
+const harCache = new Map<string, Map<string, HarEntry[]>>();
+const claimedRecordings = new Set<string>();
+
+function requestKey(method: string, url: string): string {
+  return `${method} ${url}`;
+}
+
+/**
+ * Archive a product's loads are recorded to and replayed from, one per product and entry URL
+ */
+export function getHarPath(config: HarConfig, product: ProductConfig): string {
+  const entryUrl = new URL(product.entry_url);
+  return path.join(
+    config.directory,
+    `${sanitizeFilename(product.name)}-${sanitizeFilename(entryUrl.host + entryUrl.pathname)}.har`
+  );
+}
+
+/**
+ * Claim an archive for recording. Only the first claim of a run succeeds, so later combinations
+ * and concurrent workers of the product do not overwrite it.
+ */
+export function claimHarRecording(file: string): boolean {
+  if (claimedRecordings.has(file)) {
+    return false;
+  }
+  claimedRecordings.add(file);
+  return true;
+}
+
+/**
+ * Recorded entries of a HAR archive grouped by method and URL, in recording order
+ */
+function loadHarEntries(file: string): Map<string, HarEntry[]> {
+  const cached = harCache.get(file);
+  if (cached) {
+    return cached;
+  }
+
+  if (!fs.existsSync(file)) {
+    throw new FileSystemError(
+      `HAR archive not found: ${file}. Record it first with BENCHMARK_HAR_MODE=record`
+    );
+  }
+
+  let entries: HarEntry[];
+  try {
+    entries = (JSON.parse(fs.readFileSync(file, 'utf-8')) as { log: { entries: HarEntry[] } }).log
+      .entries;
+  } catch (error) {
+    throw new FileSystemError(`Failed to read HAR archive: ${file}`, { originalError: error });
+  }
+
+  const byRequest = new Map<string, HarEntry[]>();
+  for (const entry of entries) {
+    const key = requestKey(entry.request.method, entry.request.url);
+    byRequest.set(key, [...(byRequest.get(key) ?? []), entry]);
+  }
+
+  harLogger.info('Loaded HAR archive', { file, entries: entries.length });
+  harCache.set(file, byRequest);
+  return byRequest;
+}
+
+/**
+ * Serve a page's requests from a recorded HAR archive instead of the network. Responses are
+ * delayed by the think time and the profile's conditions (latency, then transfer time of the
+ * recorded body), so throttling works the same on every browser engine. Requests that were not
+ * recorded fail as if offline.
+ */
+export async function replayFromHar(
+  page: Page,
+  file: string,
+  network: NetworkConfig,
+  thinkTimeMs: number
+): Promise<void> {
+  const entries = loadHarEntries(file);
+  // Repeated requests for a URL get its recorded responses in order, then the last one again
+  const served = new Map<string, number>();
+  const startedAt = Date.now();
+
+  await page.route('**/*', (route) =>
+    serveFromHar(route, entries, served, conditionsAt(network, Date.now() - startedAt), thinkTimeMs)
+  );
+}
+
+async function serveFromHar(
+  route: Route,
+  entries: Map<string, HarEntry[]>,
+  served: Map<string, number>,
+  conditions: NetworkConditions,
+  thinkTimeMs: number
+): Promise<void> {
+  const request = route.request();
+  const key = requestKey(request.method(), request.url());
+  const recorded = entries.get(key);
+
+  try {
+    if (!recorded) {
+      harLogger.debug('Request not in HAR archive', { url: request.url() });
+      await route.abort('internetdisconnected');
+      return;
+    }
+
+    const index = served.get(key) ?? 0;
+    served.set(key, index + 1);
+    const { response } = recorded[Math.min(index, recorded.length - 1)];
+    const body = Buffer.from(
+      response.content.text ?? '',
+      response.content.encoding === 'base64' ? 'base64' : 'utf-8'
+    );
+
+    const uploadBytes = request.postDataBuffer()?.length ?? 0;
+    await delay(
+      thinkTimeMs + conditions.latency + transferTimeMs(uploadBytes, conditions.upload_throughput)
+    );
+    await delay(transferTimeMs(body.length, conditions.download_throughput));
+
+    await route.fulfill({
+      status: response.status,
+      headers: Object.fromEntries(
+        response.headers
+          .filter((header) => !TRANSFER_HEADERS.includes(header.name.toLowerCase()))
+          .map((header) => [header.name, header.value])
+      ),
+      body,
+    });
+  } catch (error) {
+    harLogger.debug('Replayed request failed', {
+      url: request.url(),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    await route.abort().catch(() => undefined);
+  }
+}
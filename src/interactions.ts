@@ -0,0 +1,61 @@
+import { Page } from 'playwright';
+import { collectFrameEntries, FrameState, installFrameObserver } from './frame-observers';
+
+/**
+ * An event-timing entry of an interaction (key press, click or tap), on the page's timeline
+ */
+export type ObservedInteraction = {
+  start: number;
+  /** From the input until the next paint, rounded by the browser to 8ms */
+  duration: number;
+  event: string;
+  frame_url: string;
+};
+
+type FrameInteraction = Omit<ObservedInteraction, 'frame_url'>;
+
+type EventTimingEntry = PerformanceEntry & { interactionId?: number };
+
+const INTERACTIONS_GLOBAL = '__benchmarkInteractions';
+
+/**
+ * Init script keeping every event-timing entry that belongs to an interaction
+ */
+export function observeInteractions(globalName: string): void {
+  const state: FrameState<FrameInteraction> = {
+    supported: (PerformanceObserver.supportedEntryTypes ?? []).includes('event'),
+    time_origin: performance.timeOrigin,
+    entries: [],
+  };
+  (window as unknown as Record<string, unknown>)[globalName] = state;
+  if (!state.supported) return;
+
+  new PerformanceObserver((list) => {
+    for (const entry of list.getEntries() as EventTimingEntry[]) {
+      if (!entry.interactionId) continue;
+      state.entries.push({ start: entry.startTime, duration: entry.duration, event: entry.name });
+    }
+  }).observe({ type: 'event', buffered: true, durationThreshold: 16 } as PerformanceObserverInit);
+}
+
+/**
+ * Install the interaction observers for every frame the page loads
+ */
+export async function installInteractionObserver(page: Page): Promise<void> {
+  await installFrameObserver(page, observeInteractions, INTERACTIONS_GLOBAL);
+}
+
+/**
+ * Interactions of every frame of the page that started at or after `since` (page timeline); null
+ * when the browser does not report event timing
+ */
+export async function collectInteractions(
+  page: Page,
+  since: number
+): Promise<ObservedInteraction[] | null> {
+  return collectFrameEntries<FrameInteraction, ObservedInteraction>(
+    page,
+    INTERACTIONS_GLOBAL,
+    (entry, frame) => (entry.start >= since ? { ...entry, frame_url: frame.url() } : null)
+  );
+}
@@ -0,0 +1,85 @@
+import { Page } from 'playwright';
+import { collectFrameEntries, FrameState, installFrameObserver } from './frame-observers';
+
+/**
+ * One script execution inside a long animation frame, on the page's timeline
+ */
+export type ObservedScript = {
+  start: number;
+  duration: number;
+  source_url: string;
+  function_name: string;
+  invoker: string;
+  invoker_type: string;
+  forced_style_and_layout_duration: number;
+  frame_url: string;
+};
+
+type FrameScript = Omit<ObservedScript, 'frame_url'>;
+
+type ScriptTiming = {
+  startTime: number;
+  duration: number;
+  sourceURL?: string;
+  sourceFunctionName?: string;
+  invoker?: string;
+  invokerType?: string;
+  forcedStyleAndLayoutDuration?: number;
+  windowAttribution?: string;
+};
+
+type LongAnimationFrameEntry = PerformanceEntry & { scripts?: ScriptTiming[] };
+
+const LONG_ANIMATION_FRAMES_GLOBAL = '__benchmarkLongAnimationFrames';
+
+/**
+ * Init script keeping the scripts of every long animation frame (over 50ms) a frame observes
+ */
+export function observeLongAnimationFrames(globalName: string): void {
+  const state: FrameState<FrameScript> = {
+    supported: (PerformanceObserver.supportedEntryTypes ?? []).includes('long-animation-frame'),
+    time_origin: performance.timeOrigin,
+    entries: [],
+  };
+  (window as unknown as Record<string, unknown>)[globalName] = state;
+  if (!state.supported) return;
+
+  new PerformanceObserver((list) => {
+    for (const entry of list.getEntries() as LongAnimationFrameEntry[]) {
+      for (const script of entry.scripts ?? []) {
+        // Same-process frames share animation frames; each keeps only the scripts of its own window
+        if (script.windowAttribution && script.windowAttribution !== 'self') continue;
+        state.entries.push({
+          start: script.startTime,
+          duration: script.duration,
+          source_url: script.sourceURL ?? '',
+          function_name: script.sourceFunctionName ?? '',
+          invoker: script.invoker ?? '',
+          invoker_type: script.invokerType ?? '',
+          forced_style_and_layout_duration: script.forcedStyleAndLayoutDuration ?? 0,
+        });
+      }
+    }
+  }).observe({ type: 'long-animation-frame', buffered: true });
+}
+
+/**
+ * Install the long animation frame observers for every frame the page loads
+ */
+export async function installLongAnimationFrameObserver(page: Page): Promise<void> {
+  await installFrameObserver(page, observeLongAnimationFrames, LONG_ANIMATION_FRAMES_GLOBAL);
+}
+
+/**
+ * Scripts that ran in long animation frames of every frame of the page, on the page's timeline and
+ * in start order; null when the browser does not report long animation frames
+ */
+export async function collectLongAnimationFrameScripts(
+  page: Page
+): Promise<ObservedScript[] | null> {
+  return collectFrameEntries<FrameScript, ObservedScript>(
+    page,
+    LONG_ANIMATION_FRAMES_GLOBAL,
+    (script, frame) => ({ ...script, frame_url: frame.url() })
+  );
+}
@@ -0,0 +1,91 @@
+import { Page } from 'playwright';
+import { collectFrameEntries, FrameState, installFrameObserver } from './frame-observers';
+
+/**
+ * A long task on the page's performance timeline, attributed to the frame that observed it
+ */
+export type ObservedLongTask = {
+  start: number;
+  duration: number;
+  frame_url: string;
+  frame_name?: string | undefined;
+  attribution: string;
+  container_type?: string | undefined;
+  container_name?: string | undefined;
+  container_id?: string | undefined;
+  container_src?: string | undefined;
+};
+
+type FrameLongTask = Omit<ObservedLongTask, 'frame_url' | 'frame_name'>;
+
+type LongTaskEntry = PerformanceEntry & {
+  attribution?: {
+    containerType?: string;
+    containerName?: string;
+    containerId?: string;
+    containerSrc?: string;
+  }[];
+};
+
+const LONG_TASKS_GLOBAL = '__benchmarkLongTasks';
+
+/**
+ * Attributions the main frame reports for tasks no single frame claims as its own
+ */
+const SHARED_ATTRIBUTIONS = ['unknown', 'multiple-contexts'];
+
+/**
+ * Init script keeping every longtask entry a frame observes
+ */
+export function observeLongTasks(globalName: string): void {
+  const state: FrameState<FrameLongTask> = {
+    supported: (PerformanceObserver.supportedEntryTypes ?? []).includes('longtask'),
+    time_origin: performance.timeOrigin,
+    entries: [],
+  };
+  (window as unknown as Record<string, unknown>)[globalName] = state;
+  if (!state.supported) return;
+
+  new PerformanceObserver((list) => {
+    for (const entry of list.getEntries() as LongTaskEntry[]) {
+      const container = entry.attribution?.[0];
+      state.entries.push({
+        start: entry.startTime,
+        duration: entry.duration,
+        attribution: entry.name,
+        container_type: container?.containerType || undefined,
+        container_name: container?.containerName || undefined,
+        container_id: container?.containerId || undefined,
+        container_src: container?.containerSrc || undefined,
+      });
+    }
+  }).observe({ type: 'longtask', buffered: true });
+}
+
+/**
+ * Install the long task observers for every frame the page loads
+ */
+export async function installLongTaskObserver(page: Page): Promise<void> {
+  await installFrameObserver(page, observeLongTasks, LONG_TASKS_GLOBAL);
+}
+
+/**
+ * Long tasks of every frame of the page, on the page's timeline and in start order; null when the
+ * browser does not report long tasks. Same-process frames all see a task, so each frame contributes
+ * only the tasks it ran itself and the main frame also those no frame claims.
+ */
+export async function collectLongTasks(page: Page): Promise<ObservedLongTask[] | null> {
+  return collectFrameEntries<FrameLongTask, ObservedLongTask>(
+    page,
+    LONG_TASKS_GLOBAL,
+    (task, frame, isMainFrame) => {
+      if (
+        task.attribution !== 'self' &&
+        !(isMainFrame && SHARED_ATTRIBUTIONS.includes(task.attribution))
+      ) {
+        return null;
+      }
+      return { ...task, frame_url: frame.url(), frame_name: frame.name() || undefined };
+    }
+  );
+}
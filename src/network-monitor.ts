@@ -6,9 +6,11 @@ import {
   WaterfallEntry, 
   RequestDependency,
   NetworkRequestType,
+  NetworkRequestFilter,
   ContextNetworkResults
 } from './types/network';
 import { ExecutionContext } from './types/metrics';
+import { getContextKey, parseContextKey } from './utils';
 
 export class NetworkMonitor {
   private page: Page | null = null;
@@ -18,6 +20,7 @@ export class NetworkMonitor {
   private currentContext: ExecutionContext | null = null;
   private currentIteration: number = 0;
   private requestIdCounter: number = 0;
+  private requestFilter: NetworkRequestFilter | null = null;
 
   constructor() {}
 
@@ -25,6 +28,13 @@ export class NetworkMonitor {
     this.page = page;
   }
 
+  /**
+   * Track the requests a product's checkout makes instead of Razorpay's
+   */
+  public setRequestFilter(filter: NetworkRequestFilter): void {
+    this.requestFilter = filter;
+  }
+
   public setExecutionContext(context: ExecutionContext, iteration: number): void {
     this.currentContext = context;
     this.currentIteration = iteration;
@@ -144,10 +154,10 @@ export class NetworkMonitor {
    */
   private shouldTrackRequest(request: Request): boolean {
     const url = request.url();
-    const razorpayPattern = /(?:rzp|razorpay)/i;
+    const includePatterns = this.requestFilter?.include ?? [/(?:rzp|razorpay)/i];
     
-    // First check if it's a Razorpay request
-    if (!razorpayPattern.test(url)) {
+    // First check if it's a request of the checkout (Razorpay unless filtered otherwise)
+    if (!includePatterns.some((pattern) => pattern.test(url))) {
       return false;
     }
     
@@ -166,6 +176,7 @@ export class NetworkMonitor {
       /ads\.linkedin\.com/i,
       /criteo\.com/i,
       /adroll\.com/i,
+      ...(this.requestFilter?.exclude ?? []),
     ];
     
     // Check if URL matches any exclude pattern
@@ -234,7 +245,7 @@ export class NetworkMonitor {
   private addRequest(request: NetworkRequest): void {
     if (!this.currentContext) return;
 
-    const contextKey = this.getContextKey(this.currentContext);
+    const contextKey = getContextKey(this.currentContext);
     
     if (!this.requests.has(contextKey)) {
       this.requests.set(contextKey, []);
@@ -243,13 +254,6 @@ export class NetworkMonitor {
     this.requests.get(contextKey)!.push(request);
   }
 
-  /**
-   * Generate context key
-   */
-  private getContextKey(context: ExecutionContext): string {
-    return `${context.network}|${context.cpu}|${context.user_state}|${context.browser}`;
-  }
-
   /**
    * Get all network results organized by context
    */
@@ -257,14 +261,7 @@ export class NetworkMonitor {
     const results: ContextNetworkResults[] = [];
 
     for (const [contextKey, requests] of this.requests) {
-      const [network, cpu, user_state, browser] = contextKey.split('|');
-      
-      const context: ExecutionContext = {
-        network,
-        cpu,
-        user_state,
-        browser,
-      };
+      const context = parseContextKey(contextKey);
 
       // Group requests by URL and calculate statistics
       const requestStats = this.calculateRequestStatistics(requests);
@@ -558,6 +555,36 @@ export class NetworkMonitor {
     return { parallelRequests, sequentialRequests };
   }
 
+  /**
+   * Append another monitor's requests (e.g. from a parallel worker) to this one
+   */
+  public merge(other: NetworkMonitor): void {
+    for (const [contextKey, requests] of other.requests) {
+      if (!this.requests.has(contextKey)) {
+        this.requests.set(contextKey, []);
+      }
+      this.requests.get(contextKey)!.push(...requests);
+    }
+  }
+
+  /**
+   * Requests of a single execution context
+   */
+  public exportContext(context: ExecutionContext): NetworkRequest[] {
+    return [...(this.requests.get(getContextKey(context)) ?? [])];
+  }
+
+  /**
+   * Restore requests of an execution context previously taken with exportContext
+   */
+  public importContext(context: ExecutionContext, requests: NetworkRequest[]): void {
+    const contextKey = getContextKey(context);
+    if (!this.requests.has(contextKey)) {
+      this.requests.set(contextKey, []);
+    }
+    this.requests.get(contextKey)!.push(...requests);
+  }
+
   /**
    * Reset all stored data
    */
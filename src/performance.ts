@@ -1,12 +1,52 @@
 import { Page } from 'playwright';
-import { InitialLoadMetrics, ExecutionContext, Measurement } from './types/metrics';
-import { PerformanceError, createLogger, ErrorHandler } from './utils';
+import {
+  BenchmarkMetric,
+  BlockingScript,
+  InitialLoadMetrics,
+  ExecutionContext,
+  LoadPhase,
+  LongTask,
+  MainThreadMetrics,
+  Measurement,
+  PostLoadInteraction,
+  TraceBreakdown,
+} from './types/metrics';
+import { CheckoutMilestones } from './types/pom';
+import { INTERACTION_METRICS, METRIC_DEFINITIONS, TBT_PHASES } from './constants/metrics';
+import { collectInteractions } from './interactions';
+import { collectLongTasks } from './long-tasks';
+import { collectLongAnimationFrameScripts } from './long-animation-frames';
+import { analyzeTrace, parseTrace } from './tracing';
+import { PERFORMANCE_MARKERS } from './constants/performance';
+import { readWebVitals } from './web-vitals';
+import {
+  PerformanceError,
+  createLogger,
+  ErrorHandler,
+  getContextKey,
+  parseContextKey,
+} from './utils';
+
+/**
+ * A load phase's start and end on the page's timeline
+ */
+type PhaseBounds = { phase: LoadPhase; start: number; end: number };
+
+/**
+ * Round to hundredths of a millisecond
+ */
+const roundTime = (value: number): number => Math.round(value * 100) / 100;
 
 export class PerformanceMonitor {
   private page: Page | null = null;
   private currentExecutionContext: ExecutionContext | null = null;
   private currentIteration: number = 0;
+  private currentSequence: number | undefined;
+  private currentUserAgent: string | undefined;
   private measurements: Map<string, Measurement[]> = new Map();
+  private longTasks: Map<string, LongTask[]> = new Map(); // contextKey -> long tasks
+  private blockingScripts: Map<string, BlockingScript[]> = new Map(); // contextKey -> scripts
+  private traceBreakdowns: Map<string, TraceBreakdown[]> = new Map(); // contextKey -> breakdowns
   private performanceLogger: ReturnType<typeof createLogger>;
 
   constructor() {
@@ -21,19 +61,21 @@ export class PerformanceMonitor {
   }
 
   /**
-   * Mark the start of performance measurement
+   * Mark the start of performance measurement, returning the mark's timestamp
    */
-  public async markStart(markName: string): Promise<void> {
+  public async markStart(markName: string): Promise<number> {
     if (!this.page) {
       throw new PerformanceError('Page not set. Call setPage() before marking performance.');
     }
 
     return ErrorHandler.withRetry(
       async () => {
-        await this.page!.evaluate((name) => {
-          performance.mark(name);
-        }, markName);
+        const timestamp = await this.page!.evaluate(
+          (name) => performance.mark(name).startTime,
+          markName
+        );
         this.performanceLogger.debug('Performance mark created', { markName });
+        return timestamp;
       },
       {
         maxAttempts: 3,
@@ -91,17 +133,25 @@ export class PerformanceMonitor {
   }
 
   /**
-   * Set the current execution context and iteration
+   * Set the current execution context and iteration, the iteration's position in the run and the
+   * user agent the page reports
    */
-  public setExecutionContext(context: ExecutionContext, iteration: number): void {
+  public setExecutionContext(
+    context: ExecutionContext,
+    iteration: number,
+    sequence?: number,
+    userAgent?: string
+  ): void {
     this.currentExecutionContext = context;
     this.currentIteration = iteration;
+    this.currentSequence = sequence;
+    this.currentUserAgent = userAgent;
   }
 
   /**
    * Record a metric measurement
    */
-  public recordMetric(metricName: InitialLoadMetrics, value: number, unit: string): void {
+  public recordMetric(metricName: BenchmarkMetric, value: number, unit: string): void {
     if (!this.currentExecutionContext) {
       throw new PerformanceError('Execution context must be set before recording metrics');
     }
@@ -110,11 +160,14 @@ export class PerformanceMonitor {
       this.performanceLogger.warn('Negative metric value recorded', { metricName, value, unit });
     }
 
-    const contextKey = this.getContextKey(this.currentExecutionContext);
+    const contextKey = getContextKey(this.currentExecutionContext);
     const measurement: Measurement = {
       iteration: this.currentIteration,
       value: Math.max(0, value), // Ensure non-negative values
       unit,
+      sequence: this.currentSequence,
+      timestamp: new Date().toISOString(),
+      user_agent: this.currentUserAgent,
     };
 
     const key = `${contextKey}:${metricName}`;
@@ -129,6 +182,349 @@ export class PerformanceMonitor {
     });
   }
 
+  /**
+   * Record every metric whose start and end milestones were both reached
+   */
+  public recordMilestoneMetrics(milestones: CheckoutMilestones): void {
+    for (const [metricName, definition] of Object.entries(METRIC_DEFINITIONS)) {
+      const start = milestones[definition.start];
+      const end = milestones[definition.end];
+      if (start === undefined || end === undefined) {
+        this.performanceLogger.debug('Metric skipped: milestone not reported', {
+          metricName,
+          missing: start === undefined ? definition.start : definition.end,
+        });
+        continue;
+      }
+
+      this.recordMetric(metricName as InitialLoadMetrics, end - start, 'ms');
+    }
+  }
+
+  /**
+   * Record the web vitals of the checkout frame (see POM.checkoutFrame). FCP and LCP are timed
+   * from the checkout click, so paints from before it, e.g. a reused frame, are skipped.
+   */
+  public async recordWebVitals(
+    frameChain: string[],
+    checkoutStart: number | undefined
+  ): Promise<void> {
+    if (!this.page) {
+      throw new PerformanceError('Page not set. Call setPage() before recording web vitals.');
+    }
+
+    const vitals = await readWebVitals(this.page, frameChain);
+    if (!vitals) {
+      this.performanceLogger.warn('Web vitals not recorded: checkout frame not found', {
+        frameChain,
+      });
+      return;
+    }
+
+    for (const metricName of ['fcp', 'lcp'] as const) {
+      const paintTime = vitals[metricName];
+      if (paintTime !== undefined && checkoutStart !== undefined && paintTime >= checkoutStart) {
+        this.recordMetric(metricName, paintTime - checkoutStart, 'ms');
+      }
+    }
+    if (vitals.cls !== undefined) {
+      this.recordMetric('cls', vitals.cls, 'score');
+    }
+    if (vitals.inp !== undefined) {
+      this.recordMetric('inp', vitals.inp, 'ms');
+    }
+  }
+
+  /**
+   * Record each load phase's Total Blocking Time and keep the iteration's long tasks. A task's
+   * blocking part (beyond 50ms) is split across the phases it overlaps, so the phases add up to the
+   * TBT from the click until the main thread is idle.
+   */
+  public async recordLongTasks(milestones: CheckoutMilestones): Promise<void> {
+    if (!this.page || !this.currentExecutionContext) {
+      throw new PerformanceError(
+        'Page and execution context must be set before recording long tasks'
+      );
+    }
+
+    const loadPhases = this.getLoadPhases(milestones);
+    if (!loadPhases) {
+      this.performanceLogger.debug('Long tasks skipped: load phase milestones not reported');
+      return;
+    }
+
+    const tasks = await collectLongTasks(this.page);
+    if (!tasks) {
+      this.performanceLogger.debug('Long tasks skipped: not supported by the browser');
+      return;
+    }
+
+    const phases = loadPhases.map((phase) => ({ ...phase, blockingTime: 0 }));
+    const clickTime = phases[0]!.start;
+    const idleTime = phases[phases.length - 1]!.end;
+    const records: LongTask[] = [];
+
+    for (const task of tasks) {
+      const end = task.start + task.duration;
+      if (end <= clickTime || task.start >= idleTime) continue;
+
+      let blockingTime = 0;
+      for (const phase of phases) {
+        const overlap = Math.min(end, phase.end) - Math.max(task.start + 50, phase.start);
+        if (overlap > 0) {
+          phase.blockingTime += overlap;
+          blockingTime += overlap;
+        }
+      }
+
+      records.push({
+        ...task,
+        iteration: this.currentIteration,
+        phase: this.getStartPhase(loadPhases, task.start),
+        start: roundTime(task.start - clickTime),
+        duration: roundTime(task.duration),
+        blocking_time: roundTime(blockingTime),
+      });
+    }
+
+    for (const [metricName, phase] of Object.entries(TBT_PHASES) as [
+      MainThreadMetrics,
+      LoadPhase,
+    ][]) {
+      this.recordMetric(metricName, phases.find((p) => p.phase === phase)!.blockingTime, 'ms');
+    }
+
+    this.importLongTasks(this.currentExecutionContext, records);
+  }
+
+  /**
+   * Keep the scripts that ran in long animation frames between the click and main thread idle,
+   * summed per script and load phase, to show which scripts blocked the checkout's load
+   */
+  public async recordBlockingScripts(milestones: CheckoutMilestones): Promise<void> {
+    if (!this.page || !this.currentExecutionContext) {
+      throw new PerformanceError(
+        'Page and execution context must be set before recording blocking scripts'
+      );
+    }
+
+    const phases = this.getLoadPhases(milestones);
+    if (!phases) {
+      this.performanceLogger.debug('Blocking scripts skipped: load phase milestones not reported');
+      return;
+    }
+
+    const scripts = await collectLongAnimationFrameScripts(this.page);
+    if (!scripts) {
+      this.performanceLogger.debug(
+        'Blocking scripts skipped: long animation frames not supported by the browser'
+      );
+      return;
+    }
+
+    const clickTime = phases[0]!.start;
+    const idleTime = phases[phases.length - 1]!.end;
+    const records = new Map<string, BlockingScript>();
+
+    for (const script of scripts) {
+      if (script.start + script.duration <= clickTime || script.start >= idleTime) continue;
+
+      const phase = this.getStartPhase(phases, script.start);
+      const key = [
+        phase,
+        script.frame_url,
+        script.source_url,
+        script.function_name,
+        script.invoker,
+        script.invoker_type,
+      ].join('|');
+      const record = records.get(key) ?? {
+        iteration: this.currentIteration,
+        phase,
+        source_url: script.source_url,
+        function_name: script.function_name,
+        invoker: script.invoker,
+        invoker_type: script.invoker_type,
+        frame_url: script.frame_url,
+        count: 0,
+        duration: 0,
+        forced_style_and_layout_duration: 0,
+      };
+      record.count += 1;
+      record.duration += script.duration;
+      record.forced_style_and_layout_duration += script.forced_style_and_layout_duration;
+      records.set(key, record);
+    }
+
+    this.importBlockingScripts(
+      this.currentExecutionContext,
+      [...records.values()]
+        .map((record) => ({
+          ...record,
+          duration: roundTime(record.duration),
+          forced_style_and_layout_duration: roundTime(record.forced_style_and_layout_duration),
+        }))
+        .sort((a, b) => b.duration - a.duration)
+    );
+  }
+
+  /**
+   * Break the current iteration's Chrome trace down by load phase
+   * @param traceFile Where the trace was saved, relative to the results directory
+   */
+  public recordTraceBreakdown(
+    trace: Buffer,
+    traceFile: string,
+    milestones: CheckoutMilestones
+  ): void {
+    if (!this.currentExecutionContext) {
+      throw new PerformanceError('Execution context must be set before recording traces');
+    }
+
+    const phases = this.getLoadPhases(milestones);
+    if (!phases) {
+      this.performanceLogger.debug('Trace breakdown skipped: load phase milestones not reported');
+      return;
+    }
+
+    const breakdowns = analyzeTrace(
+      parseTrace(trace),
+      { mark: PERFORMANCE_MARKERS.CHECKOUT_START, time: phases[0]!.start },
+      phases
+    );
+    if (!breakdowns) {
+      this.performanceLogger.warn(
+        `Trace breakdown skipped: no ${PERFORMANCE_MARKERS.CHECKOUT_START} mark in ${traceFile}`
+      );
+      return;
+    }
+
+    const phaseBreakdowns = Object.fromEntries(
+      phases.map(({ phase }, index) => [
+        phase,
+        Object.fromEntries(
+          Object.entries(breakdowns[index]!).map(([activity, time]) => [activity, roundTime(time)])
+        ),
+      ])
+    ) as TraceBreakdown['phases'];
+
+    this.importTraceBreakdowns(this.currentExecutionContext, [
+      { iteration: this.currentIteration, trace_file: traceFile, phases: phaseBreakdowns },
+    ]);
+  }
+
+  /**
+   * Start and end of each load phase on the page's timeline, in load order; null when a milestone
+   * bounding one of them was not reported
+   */
+  private getLoadPhases(milestones: CheckoutMilestones): PhaseBounds[] | null {
+    const phases = Object.values(TBT_PHASES).map((phase) => ({
+      phase,
+      start: milestones[METRIC_DEFINITIONS[phase].start],
+      end: milestones[METRIC_DEFINITIONS[phase].end],
+    }));
+    if (phases.some((p) => p.start === undefined || p.end === undefined)) {
+      return null;
+    }
+    return phases as PhaseBounds[];
+  }
+
+  /**
+   * The phase a task starting at `start` belongs to; one already running at the click counts
+   * towards the first phase
+   */
+  private getStartPhase(phases: PhaseBounds[], start: number): LoadPhase {
+    const clickTime = phases[0]!.start;
+    return (
+      phases.find((phase) => Math.max(start, clickTime) < phase.end) ?? phases[phases.length - 1]!
+    ).phase;
+  }
+
+  /**
+   * Perform a post-load interaction and record its latency: the longest input-to-next-paint of the
+   * interactions it caused, e.g. one per key press while typing. The browser only reports
+   * interactions slower than 16ms, so an interaction with none recorded counts as 0. Nothing is
+   * recorded when the browser does not report event timing.
+   */
+  public async measureInteraction(
+    interaction: PostLoadInteraction,
+    perform: () => Promise<void>
+  ): Promise<void> {
+    if (!this.page) {
+      throw new PerformanceError('Page must be set before measuring interactions');
+    }
+
+    const since = await this.page.evaluate(() => performance.now());
+    await perform();
+
+    // Event timing entries are only reported once the input's frame has painted
+    await this.waitForMainThreadIdle();
+
+    const interactions = await collectInteractions(this.page, since);
+    if (!interactions) {
+      this.performanceLogger.debug(
+        'Interaction skipped: event timing not supported by the browser'
+      );
+      return;
+    }
+    const latency = Math.max(0, ...interactions.map((entry) => entry.duration));
+    this.recordMetric(INTERACTION_METRICS[interaction], latency, 'ms');
+  }
+
+  /**
+   * Long tasks recorded for an execution context
+   */
+  public exportLongTasks(context: ExecutionContext): LongTask[] {
+    return [...(this.longTasks.get(getContextKey(context)) ?? [])];
+  }
+
+  /**
+   * Restore long tasks of an execution context previously taken with exportLongTasks
+   */
+  public importLongTasks(context: ExecutionContext, longTasks: LongTask[]): void {
+    const contextKey = getContextKey(context);
+    if (!this.longTasks.has(contextKey)) {
+      this.longTasks.set(contextKey, []);
+    }
+    this.longTasks.get(contextKey)!.push(...longTasks);
+  }
+
+  /**
+   * Blocking scripts recorded for an execution context
+   */
+  public exportBlockingScripts(context: ExecutionContext): BlockingScript[] {
+    return [...(this.blockingScripts.get(getContextKey(context)) ?? [])];
+  }
+
+  /**
+   * Restore blocking scripts of an execution context previously taken with exportBlockingScripts
+   */
+  public importBlockingScripts(context: ExecutionContext, scripts: BlockingScript[]): void {
+    const contextKey = getContextKey(context);
+    if (!this.blockingScripts.has(contextKey)) {
+      this.blockingScripts.set(contextKey, []);
+    }
+    this.blockingScripts.get(contextKey)!.push(...scripts);
+  }
+
+  /**
+   * Trace breakdowns recorded for an execution context
+   */
+  public exportTraceBreakdowns(context: ExecutionContext): TraceBreakdown[] {
+    return [...(this.traceBreakdowns.get(getContextKey(context)) ?? [])];
+  }
+
+  /**
+   * Restore trace breakdowns of an execution context previously taken with exportTraceBreakdowns
+   */
+  public importTraceBreakdowns(context: ExecutionContext, breakdowns: TraceBreakdown[]): void {
+    const contextKey = getContextKey(context);
+    if (!this.traceBreakdowns.has(contextKey)) {
+      this.traceBreakdowns.set(contextKey, []);
+    }
+    this.traceBreakdowns.get(contextKey)!.push(...breakdowns);
+  }
+
   /**
    * Get all measurements organized by context
    */
@@ -145,17 +541,65 @@ export class PerformanceMonitor {
   }
 
   /**
-   * Reset all measurements
+   * Append another monitor's measurements (e.g. from a parallel worker) to this one
    */
-  public reset(): void {
-    this.measurements.clear();
+  public merge(other: PerformanceMonitor): void {
+    for (const [key, measurements] of other.getAllMeasurements()) {
+      if (!this.measurements.has(key)) {
+        this.measurements.set(key, []);
+      }
+      this.measurements.get(key)!.push(...measurements);
+    }
+    for (const [contextKey, longTasks] of other.longTasks) {
+      this.importLongTasks(parseContextKey(contextKey), longTasks);
+    }
+    for (const [contextKey, scripts] of other.blockingScripts) {
+      this.importBlockingScripts(parseContextKey(contextKey), scripts);
+    }
+    for (const [contextKey, breakdowns] of other.traceBreakdowns) {
+      this.importTraceBreakdowns(parseContextKey(contextKey), breakdowns);
+    }
   }
 
   /**
-   * Generate context key for grouping measurements
+   * Measurements of a single execution context, keyed by metric name
    */
-  private getContextKey(context: ExecutionContext): string {
-    return `${context.network}|${context.cpu}|${context.user_state}|${context.browser}`;
+  public exportContext(context: ExecutionContext): Record<string, Measurement[]> {
+    const prefix = `${getContextKey(context)}:`;
+    const exported: Record<string, Measurement[]> = {};
+    for (const [key, measurements] of this.measurements) {
+      if (key.startsWith(prefix)) {
+        exported[key.slice(prefix.length)] = [...measurements];
+      }
+    }
+    return exported;
+  }
+
+  /**
+   * Restore measurements of an execution context previously taken with exportContext
+   */
+  public importContext(
+    context: ExecutionContext,
+    measurements: Record<string, Measurement[]>
+  ): void {
+    const contextKey = getContextKey(context);
+    for (const [metricName, metricMeasurements] of Object.entries(measurements)) {
+      const key = `${contextKey}:${metricName}`;
+      if (!this.measurements.has(key)) {
+        this.measurements.set(key, []);
+      }
+      this.measurements.get(key)!.push(...metricMeasurements);
+    }
+  }
+
+  /**
+   * Reset all measurements
+   */
+  public reset(): void {
+    this.measurements.clear();
+    this.longTasks.clear();
+    this.blockingScripts.clear();
+    this.traceBreakdowns.clear();
   }
 
   /**
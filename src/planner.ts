@@ -0,0 +1,282 @@
+import { Config } from './types/config';
+import { ExecutionContext } from './types/metrics';
+import { CiShard, ExecutionPlan, Range } from './types/plan';
+import { isCpuThrottled, resolveConcurrency } from './worker-pool';
+import { ITERATION_DELAY, createLogger, formatDuration, unique } from './utils';
+
+/**
+ * Assumed duration of one iteration (page load, checkout trigger and idle wait), excluding delays
+ */
+const ESTIMATED_ITERATION_MS: Range = { min: 10000, max: 30000 };
+
+/**
+ * Cap applied by the worker's exponential retry backoff
+ */
+const MAX_RETRY_DELAY_MS = 30000;
+
+const planLogger = createLogger('ExecutionPlan');
+
+/**
+ * Generate all execution matrix combinations.
+ * Browser is the outermost dimension so each engine is launched only once.
+ */
+export function generateExecutionCombinations(config: Config): ExecutionContext[] {
+  const combinations: ExecutionContext[] = [];
+
+  for (const browser of config.execution.browsers) {
+    for (const networkKey of Object.keys(config.execution_matrix.network)) {
+      const networkConfig = config.execution_matrix.network[networkKey];
+      if (!networkConfig.enabled) continue;
+
+      for (const cpuKey of Object.keys(config.execution_matrix.cpu)) {
+        const cpuConfig = config.execution_matrix.cpu[cpuKey];
+        if (!cpuConfig.enabled) continue;
+
+        // CPU throttling relies on CDP, which only Chromium exposes
+        if (browser !== 'chromium' && cpuConfig.rate > 1) {
+          planLogger.warn(
+            `Skipping CPU condition '${cpuKey}' on ${browser}: CPU throttling is only supported on Chromium`
+          );
+          continue;
+        }
+
+        for (const userStateKey of Object.keys(config.execution_matrix.user_state)) {
+          const userStateConfig = config.execution_matrix.user_state[userStateKey];
+          if (!userStateConfig.enabled) continue;
+
+          for (const cacheStateKey of Object.keys(config.execution_matrix.cache_state)) {
+            if (!config.execution_matrix.cache_state[cacheStateKey].enabled) continue;
+
+            for (const deviceKey of Object.keys(config.execution_matrix.device)) {
+              if (!config.execution_matrix.device[deviceKey].enabled) continue;
+
+              for (const userAgentKey of Object.keys(config.execution_matrix.user_agent)) {
+                if (!config.execution_matrix.user_agent[userAgentKey].enabled) continue;
+
+                for (const faultKey of Object.keys(config.execution_matrix.fault)) {
+                  if (!config.execution_matrix.fault[faultKey].enabled) continue;
+
+                  combinations.push({
+                    network: networkKey,
+                    cpu: cpuKey,
+                    user_state: userStateKey,
+                    browser,
+                    cache_state: cacheStateKey,
+                    device: deviceKey,
+                    user_agent: userAgentKey,
+                    fault: faultKey,
+                  });
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return combinations;
+}
+
+/**
+ * Wall-clock range of one combination: warmup plus measured iterations and the delays after each.
+ * Warm and repeat-view iterations load checkout twice (priming or first view, then the measured load).
+ */
+function estimateCombinationMs(
+  config: Config,
+  combination: ExecutionContext,
+  iterations: number
+): Range {
+  const cacheMode = config.execution_matrix.cache_state[combination.cache_state].mode;
+  const loads = 1 + iterations * (cacheMode === 'cold' ? 1 : 2);
+  const extended = Math.floor(iterations / ITERATION_DELAY.extendedEvery);
+  const regular = iterations - extended;
+  const jitter = ITERATION_DELAY.jitterPercent / 100;
+  const extendedJitter = ITERATION_DELAY.extendedJitterPercent / 100;
+
+  return {
+    min:
+      loads * ESTIMATED_ITERATION_MS.min +
+      regular * ITERATION_DELAY.minMs * (1 - jitter) +
+      extended * ITERATION_DELAY.extendedMinMs * (1 - extendedJitter),
+    max:
+      loads * ESTIMATED_ITERATION_MS.max +
+      regular * ITERATION_DELAY.maxMs * (1 + jitter) +
+      extended * ITERATION_DELAY.extendedMaxMs * (1 + extendedJitter),
+  };
+}
+
+/**
+ * Wall-clock range of one product: combinations spread across workers, plus seeding logged-in states
+ */
+function estimateProductMs(
+  config: Config,
+  combinations: ExecutionContext[],
+  iterations: number
+): Range {
+  const concurrency =
+    config.execution.scheduling.mode === 'interleaved'
+      ? 1
+      : resolveConcurrency(config.execution.concurrency);
+  const sum = (selected: ExecutionContext[], bound: keyof Range) =>
+    selected.reduce((total, c) => total + estimateCombinationMs(config, c, iterations)[bound], 0);
+
+  // Unthrottled combinations are spread across workers, CPU-throttled ones run alone
+  const shared = combinations.filter((c) => !isCpuThrottled(config, c));
+  const exclusive = combinations.filter((c) => isCpuThrottled(config, c));
+
+  // Logged-in states without a recorded storage state are seeded once per browser engine
+  const seeded = unique(
+    combinations.filter((c) => {
+      const userState = config.execution_matrix.user_state[c.user_state];
+      return userState.is_logged_in && !userState.storage_state_file;
+    }),
+    (c) => `${c.browser}|${c.user_state}`
+  ).length;
+
+  return {
+    min:
+      sum(shared, 'min') / concurrency +
+      sum(exclusive, 'min') +
+      seeded * ESTIMATED_ITERATION_MS.min,
+    max:
+      sum(shared, 'max') / concurrency +
+      sum(exclusive, 'max') +
+      seeded * ESTIMATED_ITERATION_MS.max,
+  };
+}
+
+/**
+ * Worst-case time an iteration that fails every attempt adds: the extra attempts and the backoff between them
+ */
+function estimateRetryOverheadMs(config: Config): number {
+  const { max_attempts, delay_between_retries } = config.execution.retry;
+  let overhead = 0;
+  for (let attempt = 0; attempt < max_attempts - 1; attempt++) {
+    const backoff = Math.min(delay_between_retries * Math.pow(2, attempt), MAX_RETRY_DELAY_MS);
+    overhead += backoff * 1.25 + ESTIMATED_ITERATION_MS.max;
+  }
+  return overhead;
+}
+
+/**
+ * Split the iterations of every combination across parallel CI jobs, the same way the
+ * benchmark workflow's calculate-matrix step does
+ */
+export function buildCiShards(
+  config: Config,
+  combinations: ExecutionContext[],
+  productsCount: number,
+  maxIterationsPerJob: number
+): CiShard[] {
+  const iterations = config.execution.iterations;
+  const totalIterations = iterations * combinations.length * productsCount;
+  const totalJobs = Math.max(1, Math.ceil(totalIterations / maxIterationsPerJob));
+  const baseIterations = Math.floor(iterations / totalJobs);
+  const extraIterations = iterations % totalJobs;
+
+  const shards: CiShard[] = [];
+  for (let jobId = 1; jobId <= totalJobs; jobId++) {
+    const iterationsPerCombo = baseIterations + (jobId <= extraIterations ? 1 : 0);
+    if (iterationsPerCombo === 0) continue;
+
+    const productMs = estimateProductMs(config, combinations, iterationsPerCombo);
+    shards.push({
+      job_id: jobId,
+      iterations_per_combo: iterationsPerCombo,
+      total_iterations: iterationsPerCombo * combinations.length * productsCount,
+      estimated_duration_ms: {
+        min: productMs.min * productsCount,
+        max: productMs.max * productsCount,
+      },
+    });
+  }
+  return shards;
+}
+
+/**
+ * Resolve everything a run would do, without launching a browser
+ */
+export function buildExecutionPlan(
+  config: Config,
+  options: { maxIterationsPerJob?: number | undefined } = {}
+): ExecutionPlan {
+  const products = config.products.filter((p) => p.enabled).map((p) => p.name);
+  const combinations = generateExecutionCombinations(config);
+  const { adaptive } = config.execution;
+
+  const iterationsPerCombination: Range = adaptive.enabled
+    ? { min: adaptive.min_iterations, max: adaptive.max_iterations }
+    : { min: config.execution.iterations, max: config.execution.iterations };
+
+  const minProductMs = estimateProductMs(config, combinations, iterationsPerCombination.min);
+  const maxProductMs = estimateProductMs(config, combinations, iterationsPerCombination.max);
+
+  let shards: CiShard[] | undefined;
+  if (options.maxIterationsPerJob) {
+    if (adaptive.enabled) {
+      planLogger.warn(
+        'Adaptive runs decide their iteration count at runtime and cannot be sharded'
+      );
+    } else {
+      shards = buildCiShards(config, combinations, products.length, options.maxIterationsPerJob);
+    }
+  }
+
+  return {
+    generated_at: new Date().toISOString(),
+    config,
+    products,
+    combinations,
+    iterations_per_combination: iterationsPerCombination,
+    total_iterations: {
+      min: iterationsPerCombination.min * combinations.length * products.length,
+      max: iterationsPerCombination.max * combinations.length * products.length,
+    },
+    estimated_duration_ms: {
+      min: minProductMs.min * products.length,
+      max: maxProductMs.max * products.length,
+    },
+    retry_overhead_per_failure_ms: estimateRetryOverheadMs(config),
+    shards,
+  };
+}
+
+function formatRange(range: Range, format: (value: number) => string = String): string {
+  return range.min === range.max
+    ? format(range.min)
+    : `${format(range.min)} – ${format(range.max)}`;
+}
+
+/**
+ * Log a human-readable summary of an execution plan
+ */
+export function printExecutionPlan(plan: ExecutionPlan): void {
+  planLogger.info('\n📋 Execution Plan (dry run, no browser launched)');
+  planLogger.info('='.repeat(60));
+  planLogger.info(`Resolved configuration:\n${JSON.stringify(plan.config, null, 2)}`);
+  planLogger.info(`\nProducts (${plan.products.length}): ${plan.products.join(', ')}`);
+  planLogger.info(`Combinations (${plan.combinations.length}):`);
+  plan.combinations.forEach((c, index) => {
+    planLogger.info(
+      `  ${index + 1}. browser=${c.browser} network=${c.network} cpu=${c.cpu} user_state=${c.user_state} cache_state=${c.cache_state} device=${c.device} user_agent=${c.user_agent} fault=${c.fault}`
+    );
+  });
+  planLogger.info(
+    `\nIterations per combination: ${formatRange(plan.iterations_per_combination)}${plan.config.execution.adaptive.enabled ? ' (adaptive)' : ''}`
+  );
+  planLogger.info(`Total iterations: ${formatRange(plan.total_iterations)}`);
+  planLogger.info(`Estimated duration: ${formatRange(plan.estimated_duration_ms, formatDuration)}`);
+  planLogger.info(
+    `Each iteration that exhausts its retries adds up to ${formatDuration(plan.retry_overhead_per_failure_ms)}`
+  );
+
+  if (plan.shards) {
+    planLogger.info(`\nCI sharding plan (${plan.shards.length} jobs):`);
+    for (const shard of plan.shards) {
+      planLogger.info(
+        `  Job ${shard.job_id}: ${shard.iterations_per_combo} iterations per combination (${shard.total_iterations} total), ~${formatRange(shard.estimated_duration_ms, formatDuration)}`
+      );
+    }
+  }
+}
@@ -0,0 +1,243 @@
+import fs from 'fs';
+import path from 'path';
+import { Config } from './types/config';
+import { POMConstructor, POMPlugin, POMRegistrar } from './types/pom';
+import { createScenarioPOM, loadScenario } from './scenario-pom';
+import { ConfigurationError, createLogger } from './utils';
+
+const registryLogger = createLogger('POMRegistry');
+
+/**
+ * Methods a POM class must implement; seedUserState is optional
+ */
+const REQUIRED_POM_METHODS = ['initialize', 'triggerCheckout'];
+
+/**
+ * Directory of the POMs that ship with the framework
+ */
+const BUILT_IN_POM_DIR = path.join(__dirname, 'pom');
+
+/**
+ * A bare name, optionally with the extension older configs used (`gokwik`, `gokwik.ts`)
+ */
+const BUILT_IN_POM_NAME = /^([\w-]+)(?:\.(?:ts|js))?$/;
+
+/**
+ * Declarative checkout scenarios, interpreted by the scenario POM
+ */
+const SCENARIO_FILE = /\.(?:json|ya?ml)$/i;
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function isPathSpecifier(specifier: string): boolean {
+  return specifier.startsWith('.') || path.isAbsolute(specifier);
+}
+
+/**
+ * Resolve a path (relative to the working directory) or a package installed for the project
+ */
+function resolveModulePath(specifier: string): string | undefined {
+  try {
+    return require.resolve(isPathSpecifier(specifier) ? path.resolve(specifier) : specifier, {
+      paths: [process.cwd()],
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The default export of an imported module. CommonJS modules without the `__esModule` marker come
+ * back wrapped, so `exports.default = X` arrives as `{ default: { default: X } }`.
+ */
+function getDefaultExport(module: unknown): unknown {
+  const exported = (module as { default?: unknown }).default;
+  if (exported && typeof exported === 'object' && 'default' in exported) {
+    return (exported as { default: unknown }).default;
+  }
+  return exported;
+}
+
+/**
+ * Check that a value is a class implementing POM. Only methods can be checked at runtime, so
+ * their signatures are the POM's responsibility.
+ */
+function validatePOM(source: string, candidate: unknown): POMConstructor {
+  if (typeof candidate !== 'function' || !candidate.prototype) {
+    throw new ConfigurationError(`POM '${source}' must be a class implementing POM`, {
+      received: typeof candidate,
+    });
+  }
+
+  const prototype = candidate.prototype as Record<string, unknown>;
+  const missing = REQUIRED_POM_METHODS.filter((method) => typeof prototype[method] !== 'function');
+  if (missing.length > 0) {
+    throw new ConfigurationError(
+      `POM '${source}' does not implement POM: missing ${missing.join(', ')}`
+    );
+  }
+
+  if (prototype.seedUserState !== undefined && typeof prototype.seedUserState !== 'function') {
+    throw new ConfigurationError(`POM '${source}' has a seedUserState that is not a method`);
+  }
+
+  return candidate as POMConstructor;
+}
+
+/**
+ * Resolves a product's `pom_file` to a POM class. In order, it can be:
+ * - a name registered with register(), e.g. by a plugin listed in `pom_plugins`
+ * - the name of a built-in POM in src/pom (`magic-checkout`, `gokwik`)
+ * - a file path, relative to the working directory, default-exporting a POM class
+ * - an npm package (or a file in one) default-exporting a POM class
+ * - a JSON or YAML checkout scenario file, relative to the working directory
+ *
+ * Modules load through Node's resolution, so compiled `.js` files work everywhere and `.ts`
+ * files work when running under ts-node.
+ */
+export class POMRegistry implements POMRegistrar {
+  private registered = new Map<string, POMConstructor>();
+  private resolved = new Map<string, POMConstructor>();
+  private loadedPlugins = new Set<string>();
+
+  /**
+   * Register a POM under a name products can use as their `pom_file`
+   */
+  public register(name: string, pom: POMConstructor): void {
+    if (this.registered.has(name)) {
+      throw new ConfigurationError(`A POM named '${name}' is already registered`);
+    }
+    this.registered.set(name, validatePOM(name, pom));
+    registryLogger.debug('Registered POM', { name });
+  }
+
+  /**
+   * Names of the POMs registered so far
+   */
+  public getRegisteredNames(): string[] {
+    return [...this.registered.keys()];
+  }
+
+  /**
+   * Load plugin modules (paths or packages) and let each register its POMs. Plugins already
+   * loaded are skipped.
+   */
+  public async loadPlugins(specifiers: string[]): Promise<void> {
+    for (const specifier of specifiers) {
+      if (this.loadedPlugins.has(specifier)) continue;
+
+      const plugin = (await this.importModule(specifier, 'POM plugin')) as Partial<POMPlugin> & {
+        default?: Partial<POMPlugin> | undefined;
+      };
+      const register = plugin.register ?? plugin.default?.register;
+      if (typeof register !== 'function') {
+        throw new ConfigurationError(
+          `POM plugin '${specifier}' must export a register(registry) function`
+        );
+      }
+
+      const before = this.registered.size;
+      await register(this);
+      this.loadedPlugins.add(specifier);
+      registryLogger.info('Loaded POM plugin', {
+        plugin: specifier,
+        registered: this.registered.size - before,
+      });
+    }
+  }
+
+  /**
+   * Resolve a `pom_file` to its POM class
+   */
+  public async resolve(pomFile: string): Promise<POMConstructor> {
+    const registered = this.registered.get(pomFile);
+    if (registered) {
+      return registered;
+    }
+
+    const cached = this.resolved.get(pomFile);
+    if (cached) {
+      return cached;
+    }
+
+    const builtInName = BUILT_IN_POM_NAME.exec(pomFile)?.[1];
+    const isBuiltIn =
+      builtInName !== undefined &&
+      ['ts', 'js'].some((ext) =>
+        fs.existsSync(path.join(BUILT_IN_POM_DIR, `${builtInName}.${ext}`))
+      );
+
+    let pom: POMConstructor;
+    if (SCENARIO_FILE.test(pomFile)) {
+      pom = createScenarioPOM(loadScenario(pomFile));
+    } else if (isBuiltIn) {
+      pom = validatePOM(
+        pomFile,
+        getDefaultExport(await import(path.join(BUILT_IN_POM_DIR, builtInName)))
+      );
+    } else if (builtInName !== undefined && !resolveModulePath(pomFile)) {
+      // A bare name that is neither registered, built in nor an installed package
+      throw new ConfigurationError(
+        `Unknown POM '${pomFile}'. Registered: ${this.getRegisteredNames().join(', ') || 'none'}; built in: ${this.getBuiltInNames().join(', ')}`
+      );
+    } else {
+      pom = validatePOM(pomFile, getDefaultExport(await this.importModule(pomFile, 'POM')));
+    }
+
+    this.resolved.set(pomFile, pom);
+    return pom;
+  }
+
+  private getBuiltInNames(): string[] {
+    return fs
+      .readdirSync(BUILT_IN_POM_DIR)
+      .filter((file) => /\.(ts|js)$/.test(file) && !file.endsWith('.d.ts'))
+      .map((file) => file.replace(/\.(ts|js)$/, ''));
+  }
+
+  /**
+   * Import a plugin or POM module, reporting a missing module or a failing import clearly
+   */
+  private async importModule(specifier: string, kind: string): Promise<unknown> {
+    const resolvedPath = resolveModulePath(specifier);
+    if (!resolvedPath) {
+      throw new ConfigurationError(
+        `${kind} '${specifier}' not found: ${isPathSpecifier(specifier) ? 'no such file' : 'package is not installed'}`
+      );
+    }
+
+    try {
+      return await import(resolvedPath);
+    } catch (error) {
+      const hint = resolvedPath.endsWith('.ts')
+        ? ' TypeScript files need ts-node (npm run dev); compile them to JavaScript for npm start.'
+        : '';
+      throw new ConfigurationError(
+        `Failed to load ${kind} '${specifier}': ${describeError(error)}.${hint}`,
+        { resolvedPath }
+      );
+    }
+  }
+}
+
+/**
+ * Registry shared by the run; plugins are loaded into it before benchmarking starts
+ */
+export const pomRegistry = new POMRegistry();
+
+/**
+ * Load the configured plugins and resolve every enabled product's POM, so a missing or invalid
+ * POM fails before any browser starts instead of on the first iteration
+ */
+export async function loadProductPOMs(config: Config): Promise<void> {
+  await pomRegistry.loadPlugins(config.pom_plugins);
+  for (const product of config.products.filter((p) => p.enabled)) {
+    try {
+      await pomRegistry.resolve(product.pom_file);
+    } catch (error) {
+      throw new ConfigurationError(`Product '${product.name}': ${describeError(error)}`);
+    }
+  }
+}
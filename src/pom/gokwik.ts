@@ -1,13 +1,20 @@
 import { Page } from 'playwright';
-import { POM } from '../types/pom';
+import { CheckoutMilestones, POM } from '../types/pom';
+import { PostLoadInteraction } from '../types/metrics';
 import { ProductConfig } from '../types/config';
 import { expect } from '@playwright/test';
 import { PerformanceMonitor } from '../performance';
 import { NetworkMonitor } from '../network-monitor';
-import { PERFORMANCE_MARKERS } from '../constants/performance';
-import { logger } from '../utils';
+import { INTERACTION_CONTACT_NUMBER, PERFORMANCE_MARKERS } from '../constants/performance';
+import { ConfigurationError, logger } from '../utils';
 
 class GokwikPOM implements POM {
+  public readonly checkoutFrame = ['iframe[title="Checkout window"]'];
+  public readonly interactions: PostLoadInteraction[] = [
+    'type_contact_number',
+    'open_coupons',
+    'tap_continue',
+  ];
   private page: Page;
   private productConfig: ProductConfig;
   private performanceMonitor: PerformanceMonitor;
@@ -39,18 +46,94 @@ class GokwikPOM implements POM {
     }
   }
 
-  public async triggerCheckout(skipMetrics: boolean = false): Promise<void> {
+  /**
+   * Sign in the configured returning user so the checkout recognises them on later loads
+   */
+  public async seedUserState(): Promise<void> {
+    const returningUser = this.productConfig.returning_user;
+    if (!returningUser) {
+      throw new ConfigurationError(`No returning_user configured for ${this.productConfig.name}`);
+    }
+
     try {
-      logger.info(`Triggering checkout for ${this.productConfig.name}`);
+      logger.info(`Seeding returning user for ${this.productConfig.name}`);
+      await this.initialize();
+      await this.addProductToCart();
 
-      await this.page.getByRole('button', { name: 'Add to Cart' }).first().click({
-        timeout: 60000,
-      });
-      await this.page.getByText('6', { exact: true }).first().click({
-        timeout: 60000,
-      });
+      await this.page
+        .getByRole('button', { name: 'Proceed To Checkout' })
+        .first()
+        .click({ timeout: 60000 });
+
+      const checkoutFrame = this.page.locator('iframe[title="Checkout window"]').contentFrame();
+      await checkoutFrame
+        .getByRole('textbox', { name: 'Enter Mobile Number' })
+        .fill(returningUser.contact_number, { timeout: 60000 });
+      await checkoutFrame.getByRole('button', { name: 'Continue' }).click({ timeout: 60000 });
+
+      if (returningUser.otp) {
+        await checkoutFrame
+          .locator('input[autocomplete="one-time-code"]')
+          .first()
+          .fill(returningUser.otp, { timeout: 60000 });
+      }
+
+      // Let the checkout persist the session (cookies, localStorage, saved addresses)
+      await this.page.waitForLoadState('networkidle', { timeout: 60000 });
+      logger.info(`Returning user seeded for ${this.productConfig.name}`);
+    } catch (error) {
+      logger.error(`Failed to seed returning user for ${this.productConfig.name}: ${error}`);
+      throw error;
+    }
+  }
 
-      await this.page.waitForTimeout(1000);
+  /**
+   * Add a product to the cart so checkout can be opened
+   */
+  private async addProductToCart(): Promise<void> {
+    await this.page.getByRole('button', { name: 'Add to Cart' }).first().click({
+      timeout: 60000,
+    });
+    await this.page.getByText('6', { exact: true }).first().click({
+      timeout: 60000,
+    });
+
+    await this.page.waitForTimeout(1000);
+  }
+
+  /**
+   * Interact with the loaded checkout the way a shopper would
+   */
+  public async interact(interaction: PostLoadInteraction): Promise<void> {
+    const checkoutFrame = this.page.locator('iframe[title="Checkout window"]').contentFrame();
+
+    switch (interaction) {
+      case 'type_contact_number': {
+        const contactNumberInput = checkoutFrame.getByRole('textbox', {
+          name: 'Enter Mobile Number',
+        });
+        await contactNumberInput.click({ timeout: 60000 });
+        await contactNumberInput.clear();
+        await contactNumberInput.pressSequentially(INTERACTION_CONTACT_NUMBER, { delay: 100 });
+        break;
+      }
+      case 'tap_continue':
+        await checkoutFrame.getByRole('button', { name: 'Continue' }).click({ timeout: 60000 });
+        break;
+      case 'open_coupons':
+        await checkoutFrame
+          .getByText(/coupon/i)
+          .first()
+          .click({ timeout: 60000 });
+        break;
+    }
+  }
+
+  public async triggerCheckout(skipMetrics: boolean = false): Promise<CheckoutMilestones> {
+    try {
+      logger.info(`Triggering checkout for ${this.productConfig.name}`);
+
+      await this.addProductToCart();
 
       const buyNowButton = this.page.getByRole('button', { name: 'Proceed To Checkout' }).first();
 
@@ -60,7 +143,9 @@ class GokwikPOM implements POM {
       });
 
       // Mark the start time just before clicking (start of all measurements)
-      await this.performanceMonitor.markStart(PERFORMANCE_MARKERS.CHECKOUT_START);
+      const checkoutStart = await this.performanceMonitor.markStart(
+        PERFORMANCE_MARKERS.CHECKOUT_START
+      );
 
       // Click the Buy Now button
       await buyNowButton.click();
@@ -70,7 +155,9 @@ class GokwikPOM implements POM {
       await expect(checkoutFrame.locator('body')).toBeVisible({
         timeout: 60000,
       });
-      await this.performanceMonitor.markStart(PERFORMANCE_MARKERS.POPUP_APPEARS);
+      const popupAppears = await this.performanceMonitor.markStart(
+        PERFORMANCE_MARKERS.POPUP_APPEARS
+      );
 
       // Start network monitoring from popup appearance
       if (!skipMetrics) {
@@ -85,7 +172,9 @@ class GokwikPOM implements POM {
       await expect(contactNumberInput).toBeVisible({
         timeout: 60000,
       });
-      await this.performanceMonitor.markStart(PERFORMANCE_MARKERS.CONTENT_APPEARS);
+      const contentAppears = await this.performanceMonitor.markStart(
+        PERFORMANCE_MARKERS.CONTENT_APPEARS
+      );
 
       // Wait for main thread to be idle and mark idle state at the correct timestamp
       const idleTimestamp = await this.performanceMonitor.waitForMainThreadIdle();
@@ -100,43 +189,13 @@ class GokwikPOM implements POM {
         logger.info('🔍 Network monitoring stopped - main thread is idle');
       }
 
-      // Calculate and store all metrics
-      if (!skipMetrics) {
-        const metrics = [
-          {
-            name: 'click_to_popup' as const,
-            start: PERFORMANCE_MARKERS.CHECKOUT_START,
-            end: PERFORMANCE_MARKERS.POPUP_APPEARS,
-          },
-          {
-            name: 'popup_to_content' as const,
-            start: PERFORMANCE_MARKERS.POPUP_APPEARS,
-            end: PERFORMANCE_MARKERS.CONTENT_APPEARS,
-          },
-          {
-            name: 'click_to_content' as const,
-            start: PERFORMANCE_MARKERS.CHECKOUT_START,
-            end: PERFORMANCE_MARKERS.CONTENT_APPEARS,
-          },
-          {
-            name: 'total_load_time' as const,
-            start: PERFORMANCE_MARKERS.CHECKOUT_START,
-            end: PERFORMANCE_MARKERS.MAIN_THREAD_IDLE,
-          },
-          {
-            name: 'content_to_interactive' as const,
-            start: PERFORMANCE_MARKERS.CONTENT_APPEARS,
-            end: PERFORMANCE_MARKERS.MAIN_THREAD_IDLE,
-          },
-        ];
-
-        for (const metric of metrics) {
-          const duration = await this.performanceMonitor.measureDuration(metric.start, metric.end);
-          this.performanceMonitor.recordMetric(metric.name, duration, 'ms');
-        }
-      }
-
       logger.info(`✅ Checkout triggered successfully for ${this.productConfig.name}`);
+      return {
+        [PERFORMANCE_MARKERS.CHECKOUT_START]: checkoutStart,
+        [PERFORMANCE_MARKERS.POPUP_APPEARS]: popupAppears,
+        [PERFORMANCE_MARKERS.CONTENT_APPEARS]: contentAppears,
+        [PERFORMANCE_MARKERS.MAIN_THREAD_IDLE]: idleTimestamp,
+      };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error(`❌ Failed to trigger checkout for ${this.productConfig.name}: ${errorMessage}`);
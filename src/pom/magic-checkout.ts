@@ -1,13 +1,23 @@
 import { Page } from 'playwright';
-import { POM } from '../types/pom';
+import { CheckoutMilestones, POM } from '../types/pom';
+import { PostLoadInteraction } from '../types/metrics';
 import { ProductConfig } from '../types/config';
 import { expect } from '@playwright/test';
 import { PerformanceMonitor } from '../performance';
 import { NetworkMonitor } from '../network-monitor';
-import { PERFORMANCE_MARKERS } from '../constants/performance';
-import { logger } from '../utils';
+import { INTERACTION_CONTACT_NUMBER, PERFORMANCE_MARKERS } from '../constants/performance';
+import { ConfigurationError, logger } from '../utils';
 
 class MagicCheckoutPOM implements POM {
+  public readonly checkoutFrame = [
+    'iframe[title="Experience Checkout"]',
+    'iframe[title="checkout"]',
+  ];
+  public readonly interactions: PostLoadInteraction[] = [
+    'type_contact_number',
+    'open_coupons',
+    'tap_continue',
+  ];
   private page: Page;
   private productConfig: ProductConfig;
   private performanceMonitor: PerformanceMonitor;
@@ -39,7 +49,77 @@ class MagicCheckoutPOM implements POM {
     }
   }
 
-  public async triggerCheckout(skipMetrics: boolean = false): Promise<void> {
+  /**
+   * Sign in the configured returning user so the checkout recognises them on later loads
+   */
+  public async seedUserState(): Promise<void> {
+    const returningUser = this.productConfig.returning_user;
+    if (!returningUser) {
+      throw new ConfigurationError(`No returning_user configured for ${this.productConfig.name}`);
+    }
+
+    try {
+      logger.info(`Seeding returning user for ${this.productConfig.name}`);
+      await this.initialize();
+
+      const experienceFrame = this.page
+        .locator('iframe[title="Experience Checkout"]')
+        .contentFrame();
+      await experienceFrame.getByRole('button', { name: 'Buy Now' }).click({ timeout: 60000 });
+
+      const checkoutFrame = experienceFrame.locator('iframe[title="checkout"]').contentFrame();
+      await checkoutFrame
+        .getByTestId('contactNumber')
+        .fill(returningUser.contact_number, { timeout: 60000 });
+      await checkoutFrame.getByRole('button', { name: 'Continue' }).click({ timeout: 60000 });
+
+      if (returningUser.otp) {
+        await checkoutFrame
+          .locator('input[autocomplete="one-time-code"]')
+          .first()
+          .fill(returningUser.otp, { timeout: 60000 });
+      }
+
+      // Let the checkout persist the session (cookies, localStorage, saved addresses)
+      await this.page.waitForLoadState('networkidle', { timeout: 60000 });
+      logger.info(`Returning user seeded for ${this.productConfig.name}`);
+    } catch (error) {
+      logger.error(`Failed to seed returning user for ${this.productConfig.name}: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Interact with the loaded checkout the way a shopper would
+   */
+  public async interact(interaction: PostLoadInteraction): Promise<void> {
+    const checkoutFrame = this.page
+      .locator('iframe[title="Experience Checkout"]')
+      .contentFrame()
+      .locator('iframe[title="checkout"]')
+      .contentFrame();
+
+    switch (interaction) {
+      case 'type_contact_number': {
+        const contactNumberInput = checkoutFrame.getByTestId('contactNumber');
+        await contactNumberInput.click({ timeout: 60000 });
+        await contactNumberInput.clear();
+        await contactNumberInput.pressSequentially(INTERACTION_CONTACT_NUMBER, { delay: 100 });
+        break;
+      }
+      case 'tap_continue':
+        await checkoutFrame.getByRole('button', { name: 'Continue' }).click({ timeout: 60000 });
+        break;
+      case 'open_coupons':
+        await checkoutFrame
+          .getByText(/coupon/i)
+          .first()
+          .click({ timeout: 60000 });
+        break;
+    }
+  }
+
+  public async triggerCheckout(skipMetrics: boolean = false): Promise<CheckoutMilestones> {
     try {
       logger.info(`Triggering checkout for ${this.productConfig.name}`);
 
@@ -60,7 +140,9 @@ class MagicCheckoutPOM implements POM {
       });
 
       // Mark the start time just before clicking (start of all measurements)
-      await this.performanceMonitor.markStart(PERFORMANCE_MARKERS.CHECKOUT_START);
+      const checkoutStart = await this.performanceMonitor.markStart(
+        PERFORMANCE_MARKERS.CHECKOUT_START
+      );
 
       // Click the Buy Now button
       await buyNowButton.click();
@@ -71,7 +153,9 @@ class MagicCheckoutPOM implements POM {
         timeout: 60000,
       });
 
-      await this.performanceMonitor.markStart(PERFORMANCE_MARKERS.POPUP_APPEARS);
+      const popupAppears = await this.performanceMonitor.markStart(
+        PERFORMANCE_MARKERS.POPUP_APPEARS
+      );
 
       // Start network monitoring from popup appearance
       if (!skipMetrics) {
@@ -85,7 +169,9 @@ class MagicCheckoutPOM implements POM {
         timeout: 60000,
       });
 
-      await this.performanceMonitor.markStart(PERFORMANCE_MARKERS.CONTENT_APPEARS);
+      const contentAppears = await this.performanceMonitor.markStart(
+        PERFORMANCE_MARKERS.CONTENT_APPEARS
+      );
 
       // Wait for main thread to be idle and mark idle state at the correct timestamp
       const idleTimestamp = await this.performanceMonitor.waitForMainThreadIdle();
@@ -100,46 +186,23 @@ class MagicCheckoutPOM implements POM {
         logger.info('🔍 Network monitoring stopped - main thread is idle');
       }
 
-      // Calculate and store all metrics
+      const milestones: CheckoutMilestones = {
+        [PERFORMANCE_MARKERS.CHECKOUT_START]: checkoutStart,
+        [PERFORMANCE_MARKERS.POPUP_APPEARS]: popupAppears,
+        [PERFORMANCE_MARKERS.CONTENT_APPEARS]: contentAppears,
+        [PERFORMANCE_MARKERS.MAIN_THREAD_IDLE]: idleTimestamp,
+      };
+
+      // Only for Magic Checkout, and only worth waiting for when metrics are recorded
       if (!skipMetrics) {
-        const metrics = [
-          {
-            name: 'click_to_popup' as const,
-            start: PERFORMANCE_MARKERS.CHECKOUT_START,
-            end: PERFORMANCE_MARKERS.POPUP_APPEARS,
-          },
-          {
-            name: 'popup_to_content' as const,
-            start: PERFORMANCE_MARKERS.POPUP_APPEARS,
-            end: PERFORMANCE_MARKERS.CONTENT_APPEARS,
-          },
-          {
-            name: 'click_to_content' as const,
-            start: PERFORMANCE_MARKERS.CHECKOUT_START,
-            end: PERFORMANCE_MARKERS.CONTENT_APPEARS,
-          },
-          {
-            name: 'total_load_time' as const,
-            start: PERFORMANCE_MARKERS.CHECKOUT_START,
-            end: PERFORMANCE_MARKERS.MAIN_THREAD_IDLE,
-          },
-          {
-            name: 'content_to_interactive' as const,
-            start: PERFORMANCE_MARKERS.CONTENT_APPEARS,
-            end: PERFORMANCE_MARKERS.MAIN_THREAD_IDLE,
-          },
-        ];
-
-        for (const metric of metrics) {
-          const duration = await this.performanceMonitor.measureDuration(metric.start, metric.end);
-          this.performanceMonitor.recordMetric(metric.name, duration, 'ms');
+        const couponLoadEnd = await this.getCouponLoadEnd();
+        if (couponLoadEnd !== undefined) {
+          milestones[PERFORMANCE_MARKERS.COUPON_LOAD_END] = couponLoadEnd;
         }
-
-        // Only for Magic Checkout
-        await this.calculateTTIInternal();
       }
 
       logger.info(`✅ Checkout triggered successfully for ${this.productConfig.name}`);
+      return milestones;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error(`❌ Failed to trigger checkout for ${this.productConfig.name}: ${errorMessage}`);
@@ -148,11 +211,12 @@ class MagicCheckoutPOM implements POM {
   }
 
   /**
-   * TTI = Base TTI + Serviceability Duration + Coupon Load Duration
+   * The checkout's own coupon-load-end mark, the end of TTI Internal
+   * (TTI = Base TTI + Serviceability Duration + Coupon Load Duration)
    */
-  private async calculateTTIInternal(): Promise<void> {
+  private async getCouponLoadEnd(): Promise<number | undefined> {
     try {
-      logger.info('🔍 Calculating TTI Internal metric...');
+      logger.info('🔍 Reading coupon load end for the TTI Internal metric...');
 
       // Wait a bit more to allow performance marks to be recorded
       await new Promise((resolve) => setTimeout(resolve, 2000));
@@ -190,23 +254,17 @@ class MagicCheckoutPOM implements POM {
         return marks;
       });
 
-      const start = await this.performanceMonitor.getTimestamp(PERFORMANCE_MARKERS.CHECKOUT_START);
       const end = timeline['magic-coupon-load-end'];
-
-      if (!start || !end) {
-        logger.warn('Failed to calculate TTI Internal metric: No start/end timestamp found');
-        return;
+      if (!end) {
+        logger.warn('Failed to read TTI Internal end: no magic-coupon-load-end mark found');
+        return undefined;
       }
-      const ttiInternal = end - start;
-
-      // Record the TTI Internal metric
-      this.performanceMonitor.recordMetric('tti_internal', ttiInternal, 'ms');
+      return end;
     } catch (error) {
-      logger.warn('⚠️ Error calculating TTI Internal metric:', {
+      logger.warn('⚠️ Error reading TTI Internal end:', {
         error: error instanceof Error ? error.message : String(error),
       });
-      // Record zero as fallback to avoid missing data
-      this.performanceMonitor.recordMetric('tti_internal', 0, 'ms');
+      return undefined;
     }
   }
 }
@@ -1,8 +1,8 @@
-import { BenchmarkResults, ProductResults, MetricMetadata, InitialLoadMetrics } from './types/metrics';
+import { BenchmarkResults, ProductResults, MetricMetadata, BenchmarkMetric, FailedIteration } from './types/metrics';
 import { Config } from './types/config';
 import { NetworkResults } from './types/network';
-import { METRICS } from './constants/metrics';
-import { logger, captureSystemInfo, SystemInfo } from './utils';
+import { METRIC_METADATA } from './constants/metrics';
+import { logger, captureSystemInfo, SystemInfo, getContextKey } from './utils';
 
 export class ResultsManager {
   private config: Config;
@@ -28,6 +28,13 @@ export class ResultsManager {
     this.productResults.push(productResults);
   }
 
+  /**
+   * Whether any product's results were added
+   */
+  public hasProductResults(): boolean {
+    return this.productResults.length > 0;
+  }
+
   /**
    * Add network results from a product
    */
@@ -111,9 +118,9 @@ export class ResultsManager {
    */
   private buildConsolidatedResults(): BenchmarkResults {
     // Build metrics metadata once
-    const metricsMetadata: Record<InitialLoadMetrics, MetricMetadata> = {} as Record<InitialLoadMetrics, MetricMetadata>;
-    for (const metricName of Object.keys(METRICS.initial_load) as InitialLoadMetrics[]) {
-      const metricInfo = METRICS.initial_load[metricName];
+    const metricsMetadata: Record<BenchmarkMetric, MetricMetadata> = {} as Record<BenchmarkMetric, MetricMetadata>;
+    for (const metricName of Object.keys(METRIC_METADATA) as BenchmarkMetric[]) {
+      const metricInfo = METRIC_METADATA[metricName];
       metricsMetadata[metricName] = {
         name: metricInfo.name,
         description: metricInfo.description,
@@ -125,16 +132,23 @@ export class ResultsManager {
       execution_config: {
         iterations: this.config.execution.iterations,
         browsers: this.config.execution.browsers,
+        concurrency: this.config.execution.concurrency,
         timeout: this.config.execution.timeout,
         headless: this.config.execution.headless,
         retry: this.config.execution.retry,
-        viewport: this.config.execution.viewport,
+        failure_policy: this.config.execution.failure_policy,
+        scheduling: this.config.execution.scheduling,
+        adaptive: this.config.execution.adaptive,
+        user_agent: this.config.execution.user_agent,
       },
       execution_matrix: this.config.execution_matrix,
       products_config: this.config.products,
       metrics_metadata: metricsMetadata,
       products: this.productResults,
       system_info: this.systemInfo || undefined,
+      har: this.config.har,
+      tracing: this.config.tracing,
+      run_id: this.config.output.run_id,
     };
   }
 
@@ -151,6 +165,10 @@ export class ResultsManager {
       'CPU',
       'User State', 
       'Browser',
+      'Cache State',
+      'Device',
+      'User Agent',
+      'Fault',
       'Metric Name',
       'Metric Description',
       'Iterations',
@@ -158,17 +176,23 @@ export class ResultsManager {
       'Min',
       'Max',
       'Mean',
-      'Count'
+      'Count',
+      'Failed Iterations',
+      'Failures'
     ];
     rows.push(headers.join(','));
 
     // Data rows
     for (const productResult of results.products) {
+      const failuresByContext = this.groupFailuresByContext(productResult.failed_iterations ?? []);
+
       for (const contextResult of productResult.results) {
         const { context } = contextResult;
+        const contextFailures = failuresByContext.get(getContextKey(context)) ?? [];
+        failuresByContext.delete(getContextKey(context));
         
         for (const [metricKey, metricData] of Object.entries(contextResult.metrics)) {
-          const metricName = metricKey as InitialLoadMetrics;
+          const metricName = metricKey as BenchmarkMetric;
           const metadata = results.metrics_metadata[metricName];
           const { measurements, statistics } = metricData;
           
@@ -184,6 +208,10 @@ export class ResultsManager {
             this.escapeCSV(context.cpu),
             this.escapeCSV(context.user_state),
             this.escapeCSV(context.browser),
+            this.escapeCSV(context.cache_state),
+            this.escapeCSV(context.device),
+            this.escapeCSV(context.user_agent),
+            this.escapeCSV(context.fault),
             this.escapeCSV(metadata.name),
             this.escapeCSV(metadata.description),
             this.escapeCSV(iterationsValues),
@@ -191,16 +219,59 @@ export class ResultsManager {
             (Math.round(statistics.min * 100) / 100).toString(),
             (Math.round(statistics.max * 100) / 100).toString(),
             (Math.round(statistics.mean * 100) / 100).toString(),
-            statistics.count.toString()
+            statistics.count.toString(),
+            contextFailures.length.toString(),
+            this.escapeCSV(this.formatFailures(contextFailures))
           ];
           rows.push(row.join(','));
         }
       }
+
+      // Combinations where every iteration failed have no metrics, only failures
+      for (const contextFailures of failuresByContext.values()) {
+        const { combination } = contextFailures[0];
+        const row = [
+          this.escapeCSV(productResult.product),
+          this.escapeCSV(combination.network),
+          this.escapeCSV(combination.cpu),
+          this.escapeCSV(combination.user_state),
+          this.escapeCSV(combination.browser),
+          this.escapeCSV(combination.cache_state),
+          this.escapeCSV(combination.device),
+          this.escapeCSV(combination.user_agent),
+          this.escapeCSV(combination.fault),
+          '', '', '', '', '', '', '', '0',
+          contextFailures.length.toString(),
+          this.escapeCSV(this.formatFailures(contextFailures))
+        ];
+        rows.push(row.join(','));
+      }
     }
 
     return rows.join('\n');
   }
 
+  /**
+   * Group failed iterations by their execution context key
+   */
+  private groupFailuresByContext(failures: FailedIteration[]): Map<string, FailedIteration[]> {
+    const groups = new Map<string, FailedIteration[]>();
+    for (const failure of failures) {
+      const key = getContextKey(failure.combination);
+      groups.set(key, [...(groups.get(key) ?? []), failure]);
+    }
+    return groups;
+  }
+
+  /**
+   * Format failures as "#<iteration> <error class> (<attempts> attempts, <timestamp>): <error>"
+   */
+  private formatFailures(failures: FailedIteration[]): string {
+    return failures
+      .map(f => `#${f.iteration} ${f.error_class} (${f.attempts} attempts, ${f.timestamp}): ${f.error}`)
+      .join('; ');
+  }
+
   /**
    * Escape CSV values (handle commas, quotes, newlines)
    */
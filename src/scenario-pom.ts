@@ -0,0 +1,290 @@
+import fs from 'fs';
+import path from 'path';
+import { FrameLocator, Locator, Page } from 'playwright';
+import { expect } from '@playwright/test';
+import { CheckoutMilestones, POM, POMConstructor } from './types/pom';
+import { ProductConfig } from './types/config';
+import { CheckoutScenario, ScenarioLocator, ScenarioStep } from './types/scenario';
+import { PostLoadInteraction } from './types/metrics';
+import { PerformanceMonitor } from './performance';
+import { NetworkMonitor } from './network-monitor';
+import { readConfigFile } from './config-layers';
+import { PERFORMANCE_MARKERS } from './constants/performance';
+import { ConfigurationError, logger, ScenarioValidator } from './utils';
+
+type AriaRole = Parameters<Page['getByRole']>[0];
+
+const STEP_TIMEOUT = 60000;
+const TYPING_DELAY = 100;
+
+/**
+ * {{contact_number}} and {{otp}} in fill values
+ */
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+/**
+ * Read and validate a JSON or YAML checkout scenario
+ */
+export function loadScenario(filePath: string): CheckoutScenario {
+  if (!fs.existsSync(path.resolve(filePath))) {
+    throw new ConfigurationError(`Scenario file not found: ${filePath}`);
+  }
+
+  const result = new ScenarioValidator().validate(readConfigFile(filePath));
+  if (!result.isValid) {
+    throw new ConfigurationError(`Invalid scenario ${filePath}: ${result.errors.join('; ')}`, {
+      errors: result.errors,
+    });
+  }
+  return result.data!;
+}
+
+/**
+ * Generic POM driving a checkout from a declarative scenario: the steps leading up to the
+ * checkout button, the button itself and the selectors marking the popup and content milestones
+ */
+export class ScenarioPOM implements POM {
+  private scenario: CheckoutScenario;
+  private page: Page;
+  private productConfig: ProductConfig;
+  private performanceMonitor: PerformanceMonitor;
+  private networkMonitor: NetworkMonitor;
+
+  /** The frame holding the content milestone */
+  public readonly checkoutFrame: string[];
+  public readonly interactions: PostLoadInteraction[];
+
+  constructor(
+    scenario: CheckoutScenario,
+    page: Page,
+    productConfig: ProductConfig,
+    performanceMonitor: PerformanceMonitor,
+    networkMonitor: NetworkMonitor
+  ) {
+    this.scenario = scenario;
+    this.page = page;
+    this.productConfig = productConfig;
+    this.performanceMonitor = performanceMonitor;
+    this.networkMonitor = networkMonitor;
+    this.checkoutFrame = scenario.milestones.content.frames ?? [];
+    this.interactions = Object.keys(scenario.interactions ?? {}) as PostLoadInteraction[];
+
+    const filter = scenario.network_filter;
+    if (filter) {
+      this.networkMonitor.setRequestFilter({
+        include: filter.include?.map((pattern) => new RegExp(pattern, 'i')),
+        exclude: filter.exclude?.map((pattern) => new RegExp(pattern, 'i')),
+      });
+    }
+  }
+
+  public async initialize(): Promise<void> {
+    try {
+      logger.info(`Initializing POM for ${this.productConfig.name}`);
+      await this.page.goto(this.productConfig.entry_url, {
+        waitUntil: 'domcontentloaded',
+        timeout: STEP_TIMEOUT,
+      });
+      logger.info(`POM initialized for ${this.productConfig.name}`);
+    } catch (error) {
+      logger.error(`Failed to initialize POM for ${this.productConfig.name}: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Sign in the configured returning user with the scenario's seed_user_state steps
+   */
+  public async seedUserState(): Promise<void> {
+    if (!this.productConfig.returning_user) {
+      throw new ConfigurationError(`No returning_user configured for ${this.productConfig.name}`);
+    }
+    if (!this.scenario.seed_user_state) {
+      throw new ConfigurationError(
+        `Scenario for ${this.productConfig.name} has no seed_user_state steps. Add them or set storage_state_file`
+      );
+    }
+
+    try {
+      logger.info(`Seeding returning user for ${this.productConfig.name}`);
+      await this.initialize();
+      await this.runSteps(this.scenario.seed_user_state);
+
+      // Let the checkout persist the session (cookies, localStorage, saved addresses)
+      await this.page.waitForLoadState('networkidle', { timeout: STEP_TIMEOUT });
+      logger.info(`Returning user seeded for ${this.productConfig.name}`);
+    } catch (error) {
+      logger.error(`Failed to seed returning user for ${this.productConfig.name}: ${error}`);
+      throw error;
+    }
+  }
+
+  public async triggerCheckout(skipMetrics: boolean = false): Promise<CheckoutMilestones> {
+    try {
+      logger.info(`Triggering checkout for ${this.productConfig.name}`);
+
+      await this.runSteps(this.scenario.steps);
+
+      const clickTarget = this.locate(this.scenario.click);
+
+      // Ensure the target is visible before starting measurement
+      await expect(clickTarget).toBeVisible({ timeout: STEP_TIMEOUT });
+
+      // Mark the start time just before clicking (start of all measurements)
+      const checkoutStart = await this.performanceMonitor.markStart(
+        PERFORMANCE_MARKERS.CHECKOUT_START
+      );
+      await clickTarget.click();
+
+      // Wait for the checkout popup to appear and mark popup appearance
+      await expect(this.locate(this.scenario.milestones.popup)).toBeVisible({
+        timeout: STEP_TIMEOUT,
+      });
+      const popupAppears = await this.performanceMonitor.markStart(
+        PERFORMANCE_MARKERS.POPUP_APPEARS
+      );
+
+      // Start network monitoring from popup appearance
+      if (!skipMetrics) {
+        await this.networkMonitor.startMonitoring();
+      }
+
+      // Wait for the checkout content and mark content appearance
+      await expect(this.locate(this.scenario.milestones.content)).toBeVisible({
+        timeout: STEP_TIMEOUT,
+      });
+      const contentAppears = await this.performanceMonitor.markStart(
+        PERFORMANCE_MARKERS.CONTENT_APPEARS
+      );
+
+      // Wait for main thread to be idle and mark idle state at the correct timestamp
+      const idleTimestamp = await this.performanceMonitor.waitForMainThreadIdle();
+      await this.performanceMonitor.markAtTimestamp(
+        PERFORMANCE_MARKERS.MAIN_THREAD_IDLE,
+        idleTimestamp
+      );
+
+      if (!skipMetrics) {
+        await this.networkMonitor.stopMonitoring();
+      }
+
+      logger.info(`✅ Checkout triggered successfully for ${this.productConfig.name}`);
+      return {
+        [PERFORMANCE_MARKERS.CHECKOUT_START]: checkoutStart,
+        [PERFORMANCE_MARKERS.POPUP_APPEARS]: popupAppears,
+        [PERFORMANCE_MARKERS.CONTENT_APPEARS]: contentAppears,
+        [PERFORMANCE_MARKERS.MAIN_THREAD_IDLE]: idleTimestamp,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`❌ Failed to trigger checkout for ${this.productConfig.name}: ${errorMessage}`);
+      throw error;
+    }
+  }
+
+  public async interact(interaction: PostLoadInteraction): Promise<void> {
+    await this.runSteps(this.scenario.interactions?.[interaction] ?? []);
+  }
+
+  private async runSteps(steps: ScenarioStep[]): Promise<void> {
+    for (const step of steps) {
+      switch (step.action) {
+        case 'goto':
+          await this.page.goto(step.url!, { waitUntil: 'domcontentloaded', timeout: STEP_TIMEOUT });
+          break;
+        case 'click':
+          await this.locate(step.target!).click({ timeout: STEP_TIMEOUT });
+          break;
+        case 'fill':
+        case 'type': {
+          const value = this.fillPlaceholders(step.value!);
+          if (value === undefined) {
+            if (step.optional) continue;
+            throw new ConfigurationError(
+              `Scenario step value '${step.value}' uses a returning_user field ${this.productConfig.name} does not set`
+            );
+          }
+          const target = this.locate(step.target!);
+          if (step.action === 'fill') {
+            await target.fill(value, { timeout: STEP_TIMEOUT });
+          } else {
+            // Key by key, so the browser times every key press as an interaction
+            await target.pressSequentially(value, { delay: TYPING_DELAY, timeout: STEP_TIMEOUT });
+          }
+          break;
+        }
+        case 'wait_for':
+          await expect(this.locate(step.target!)).toBeVisible({ timeout: STEP_TIMEOUT });
+          break;
+        case 'wait':
+          await this.page.waitForTimeout(step.duration_ms!);
+          break;
+        case 'wait_for_load_state':
+          await this.page.waitForLoadState(step.state!, { timeout: STEP_TIMEOUT });
+          break;
+      }
+    }
+  }
+
+  /**
+   * Replace placeholders with the returning user's fields; undefined when one is not set
+   */
+  private fillPlaceholders(value: string): string | undefined {
+    const fields: Record<string, string | undefined> = {
+      contact_number: this.productConfig.returning_user?.contact_number,
+      otp: this.productConfig.returning_user?.otp,
+    };
+
+    let missing = false;
+    const filled = value.replace(PLACEHOLDER, (_match, field: string) => {
+      const fieldValue = fields[field];
+      if (fieldValue === undefined) {
+        missing = true;
+        return '';
+      }
+      return fieldValue;
+    });
+
+    return missing ? undefined : filled;
+  }
+
+  private locate(locator: ScenarioLocator): Locator {
+    let scope: Page | FrameLocator = this.page;
+    for (const frame of locator.frames ?? []) {
+      scope = scope.locator(frame).contentFrame();
+    }
+
+    const exact = locator.exact !== undefined ? { exact: locator.exact } : {};
+    let element: Locator;
+    if (locator.role !== undefined) {
+      element = scope.getByRole(locator.role as AriaRole, {
+        ...(locator.name !== undefined && { name: locator.name }),
+        ...exact,
+      });
+    } else if (locator.test_id !== undefined) {
+      element = scope.getByTestId(locator.test_id);
+    } else if (locator.text !== undefined) {
+      element = scope.getByText(locator.text, exact);
+    } else {
+      element = scope.locator(locator.selector ?? 'body');
+    }
+
+    return element.nth(locator.nth ?? 0);
+  }
+}
+
+/**
+ * A POM class bound to a scenario, so the worker can construct it like any other POM
+ */
+export function createScenarioPOM(scenario: CheckoutScenario): POMConstructor {
+  return class extends ScenarioPOM {
+    constructor(
+      page: Page,
+      productConfig: ProductConfig,
+      performanceMonitor: PerformanceMonitor,
+      networkMonitor: NetworkMonitor
+    ) {
+      super(scenario, page, productConfig, performanceMonitor, networkMonitor);
+    }
+  };
+}
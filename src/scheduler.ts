@@ -0,0 +1,186 @@
+import { Config, SchedulingOrder } from './types/config';
+import { ExecutionContext } from './types/metrics';
+import { BenchmarkWorker } from './worker';
+import { TestExecutor } from './executor';
+import { CheckpointManager } from './checkpoint';
+import {
+  createLogger,
+  createSeededRandom,
+  delay,
+  generateIterationDelay,
+  getContextKey,
+  shuffle,
+  unique,
+} from './utils';
+
+/**
+ * One product's combination taking turns in interleaved rounds
+ */
+export type InterleavedTrack = {
+  product: string;
+  combination: ExecutionContext;
+};
+
+/**
+ * Order the tracks of a round (1-based). Round-robin rotates the starting track every round so no
+ * track always runs first; random shuffles each round with the seeded generator.
+ */
+export function orderRound<T>(
+  tracks: T[],
+  round: number,
+  order: SchedulingOrder,
+  random: () => number
+): T[] {
+  if (order === 'random') {
+    return shuffle(tracks, random);
+  }
+
+  const offset = (round - 1) % tracks.length;
+  return [...tracks.slice(offset), ...tracks.slice(0, offset)];
+}
+
+/**
+ * Runs all products' combinations one iteration at a time, taking turns between products (and
+ * optionally contexts) so drift in backend load or network over a long run affects every product
+ * equally instead of showing up as a product difference.
+ *
+ * Each product keeps its own worker; a track's context stays open across rounds so browser caches
+ * behave as in a sequential run.
+ */
+export class InterleavedScheduler {
+  private executors: TestExecutor[];
+  private config: Config;
+  private checkpoint: CheckpointManager;
+  private workers = new Map<string, BenchmarkWorker>();
+  private random: () => number;
+  private schedulerLogger: ReturnType<typeof createLogger>;
+
+  constructor(executors: TestExecutor[], config: Config, checkpoint: CheckpointManager) {
+    this.executors = executors;
+    this.config = config;
+    this.checkpoint = checkpoint;
+    this.random = createSeededRandom(config.execution.scheduling.seed);
+    this.schedulerLogger = createLogger('InterleavedScheduler');
+  }
+
+  public async run(): Promise<void> {
+    const { scheduling, concurrency } = this.config.execution;
+    if (concurrency > 1) {
+      this.schedulerLogger.warn(
+        'Interleaved scheduling runs one iteration at a time, ignoring concurrency',
+        { concurrency }
+      );
+    }
+
+    const pending = new Map<string, ExecutionContext[]>();
+    for (const [index, executor] of this.executors.entries()) {
+      const product = executor.getProduct();
+      pending.set(product.name, executor.prepare());
+      this.workers.set(
+        product.name,
+        new BenchmarkWorker(index + 1, product, this.config, new Map(), this.checkpoint)
+      );
+    }
+
+    const groups = this.buildGroups(pending);
+    this.schedulerLogger.info('Scheduling interleaved rounds', {
+      products: [...pending.keys()],
+      groups: groups.length,
+      order: scheduling.order,
+      seed: scheduling.order === 'random' ? scheduling.seed : undefined,
+      interleaveContexts: scheduling.interleave_contexts,
+    });
+
+    try {
+      for (const [index, group] of groups.entries()) {
+        this.schedulerLogger.info(`Running group ${index + 1}/${groups.length}`, {
+          tracks: group.length,
+        });
+        await this.runGroup(group);
+      }
+    } finally {
+      for (const executor of this.executors) {
+        const worker = this.workers.get(executor.getProduct().name)!;
+        executor.collectWorkerResults([worker]);
+        await worker.cleanup();
+      }
+    }
+
+    for (const executor of this.executors) {
+      executor.complete();
+    }
+  }
+
+  /**
+   * Split tracks into groups that are open at the same time: one group per browser engine when
+   * contexts are interleaved, otherwise one group per combination
+   */
+  private buildGroups(pending: Map<string, ExecutionContext[]>): InterleavedTrack[][] {
+    const groups = new Map<string, InterleavedTrack[]>();
+    const combinations = unique([...pending.values()].flat(), getContextKey);
+
+    for (const combination of combinations) {
+      const contextKey = getContextKey(combination);
+      const groupKey = this.config.execution.scheduling.interleave_contexts
+        ? combination.browser
+        : contextKey;
+
+      for (const [product, productCombinations] of pending) {
+        if (productCombinations.some((c) => getContextKey(c) === contextKey)) {
+          groups.set(groupKey, [...(groups.get(groupKey) ?? []), { product, combination }]);
+        }
+      }
+    }
+
+    return [...groups.values()];
+  }
+
+  /**
+   * Open every track of a group, then run rounds of one iteration per track until all are done
+   */
+  private async runGroup(group: InterleavedTrack[]): Promise<void> {
+    const { scheduling } = this.config.execution;
+    const opened: Array<InterleavedTrack & { nextIteration: number; abandoned: boolean }> = [];
+    const isActive = (track: (typeof opened)[number]) =>
+      !track.abandoned &&
+      !this.getWorker(track).isCombinationDone(track.combination, track.nextIteration - 1);
+
+    try {
+      for (const track of group) {
+        const nextIteration = await this.getWorker(track).openCombination(track.combination);
+        opened.push({ ...track, nextIteration, abandoned: false });
+      }
+
+      let active = opened.filter(isActive);
+      for (let round = 1; active.length > 0; round++) {
+        const ordered = orderRound(active, round, scheduling.order, this.random);
+        this.schedulerLogger.info(`Round ${round}`, {
+          order: ordered.map((t) => `${t.product}@${getContextKey(t.combination)}`),
+        });
+
+        for (const [index, track] of ordered.entries()) {
+          const keepRunning = await this.getWorker(track).runMeasuredIteration(
+            track.combination,
+            track.nextIteration
+          );
+          track.nextIteration++;
+          track.abandoned = !keepRunning;
+
+          // Extended delays apply once per round rather than once per track
+          const delayMs = generateIterationDelay(index === ordered.length - 1 ? round : 0);
+          await delay(delayMs);
+        }
+
+        active = active.filter(isActive);
+      }
+    } finally {
+      for (const track of opened) {
+        await this.getWorker(track).closeCombination(track.combination);
+      }
+    }
+  }
+
+  private getWorker(track: InterleavedTrack): BenchmarkWorker {
+    return this.workers.get(track.product)!;
+  }
+}
@@ -0,0 +1,250 @@
+import fs from 'fs';
+import { Page, Route } from 'playwright';
+import { BrowserType, CPUConfig, NetworkConfig } from './types/config';
+import { BrowserError, ConfigurationError, FileSystemError, createLogger, delay } from './utils';
+
+const throttlingLogger = createLogger('Throttling');
+
+/**
+ * Mahimahi traces count delivery opportunities of one MTU-sized packet each
+ */
+const MAHIMAHI_PACKET_BYTES = 1500;
+
+/**
+ * TCP payload per packet, used by the loss-limited throughput model
+ */
+const TCP_SEGMENT_BYTES = 1460;
+
+/**
+ * How often time-varying conditions (bandwidth traces, jitter) are re-applied during a load
+ */
+export const CONDITION_UPDATE_INTERVAL_MS = 500;
+
+const traceCache = new Map<string, number[]>();
+
+/**
+ * Network conditions in effect at one moment of a load
+ */
+export type NetworkConditions = {
+  /** Bytes/second, -1 when unthrottled */
+  download_throughput: number;
+  upload_throughput: number;
+  latency: number;
+};
+
+/**
+ * Strategy used to apply network and CPU conditions to a page
+ */
+export interface ThrottlingStrategy {
+  readonly name: string;
+  readonly supportsCpuThrottling: boolean;
+  apply(page: Page, network: NetworkConfig, cpu: CPUConfig): Promise<void>;
+}
+
+/**
+ * Time in milliseconds needed to transfer a payload at the given throughput (bytes/second)
+ */
+export function transferTimeMs(bytes: number, throughput: number): number {
+  return throughput > 0 ? (bytes / throughput) * 1000 : 0;
+}
+
+/**
+ * Parse a Mahimahi trace (one line per 1500-byte delivery opportunity, in milliseconds since the
+ * start of the trace) into the throughput in bytes/second of each update interval
+ */
+export function loadMahimahiTrace(file: string): number[] {
+  const cached = traceCache.get(file);
+  if (cached) {
+    return cached;
+  }
+
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf-8');
+  } catch (error) {
+    throw new FileSystemError(`Failed to read network trace: ${file}`, { originalError: error });
+  }
+
+  const timestamps = content
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line !== '')
+    .map(Number);
+  if (timestamps.length === 0 || timestamps.some((t) => !Number.isInteger(t) || t < 0)) {
+    throw new ConfigurationError(
+      `Invalid Mahimahi trace ${file}: expected one non-negative integer timestamp (ms) per line`
+    );
+  }
+
+  const duration = timestamps.reduce((max, t) => Math.max(max, t), 0);
+  const intervals = Math.max(1, Math.ceil(duration / CONDITION_UPDATE_INTERVAL_MS));
+  const bytes = new Array<number>(intervals).fill(0);
+  for (const t of timestamps) {
+    bytes[Math.min(Math.floor(t / CONDITION_UPDATE_INTERVAL_MS), intervals - 1)] +=
+      MAHIMAHI_PACKET_BYTES;
+  }
+
+  const throughputs = bytes.map((b) => (b * 1000) / CONDITION_UPDATE_INTERVAL_MS);
+  traceCache.set(file, throughputs);
+  return throughputs;
+}
+
+/**
+ * Cap throughput at the rate TCP sustains under random packet loss (Mathis et al.:
+ * MSS / RTT × 1.22 / √p). CDP's own packetLoss only affects WebRTC, so loss is modelled this way.
+ */
+function lossLimitedThroughput(throughput: number, latencyMs: number, packetLoss: number): number {
+  if (packetLoss <= 0 || latencyMs <= 0) {
+    return throughput;
+  }
+
+  const limit =
+    (TCP_SEGMENT_BYTES * 1.22) / ((latencyMs / 1000) * Math.sqrt(Math.min(packetLoss, 100) / 100));
+  return throughput > 0 ? Math.min(throughput, limit) : limit;
+}
+
+/**
+ * Whether a profile's conditions change during a load and need re-applying on a schedule
+ */
+export function isTimeVarying(network: NetworkConfig): boolean {
+  return Boolean(network.trace) || (network.jitter ?? 0) > 0;
+}
+
+/**
+ * Conditions a profile prescribes the given time into a load: bandwidth from its traces (looping),
+ * latency varied uniformly by ±jitter, and throughput limited by packet loss
+ */
+export function conditionsAt(network: NetworkConfig, elapsedMs: number): NetworkConditions {
+  const interval = Math.floor(elapsedMs / CONDITION_UPDATE_INTERVAL_MS);
+  const traceThroughput = (file: string | undefined, fallback: number) => {
+    if (!file) {
+      return fallback;
+    }
+    const trace = loadMahimahiTrace(file);
+    // 0 would disable throttling in CDP, so an outage is modelled as 1 byte/second
+    return Math.max(1, trace[interval % trace.length]);
+  };
+
+  const jitter = network.jitter ?? 0;
+  const latency = Math.max(0, network.latency + jitter * (Math.random() * 2 - 1));
+  const packetLoss = network.packet_loss ?? 0;
+
+  return {
+    download_throughput: lossLimitedThroughput(
+      traceThroughput(network.trace?.downlink_file, network.download_throughput),
+      latency,
+      packetLoss
+    ),
+    upload_throughput: lossLimitedThroughput(
+      traceThroughput(network.trace?.uplink_file, network.upload_throughput),
+      latency,
+      packetLoss
+    ),
+    latency,
+  };
+}
+
+/**
+ * Chromium-only throttling through the DevTools protocol
+ */
+export class CdpThrottlingStrategy implements ThrottlingStrategy {
+  readonly name = 'cdp';
+  readonly supportsCpuThrottling = true;
+
+  async apply(page: Page, network: NetworkConfig, cpu: CPUConfig): Promise<void> {
+    // Create CDP session for this page only - it lives and dies with the page
+    const cdpSession = await page.context().newCDPSession(page);
+
+    const emulate = async (elapsedMs: number) => {
+      const conditions = conditionsAt(network, elapsedMs);
+      await cdpSession.send('Network.emulateNetworkConditions', {
+        offline: false,
+        downloadThroughput: conditions.download_throughput,
+        uploadThroughput: conditions.upload_throughput,
+        latency: conditions.latency,
+        connectionType: network.connection_type,
+      });
+    };
+
+    // Apply network throttling (always, even if 0 for consistency)
+    await emulate(0);
+
+    // Replay traces and jitter by updating conditions on a schedule until the page closes
+    if (isTimeVarying(network)) {
+      const startedAt = Date.now();
+      const timer = setInterval(() => {
+        emulate(Date.now() - startedAt).catch(() => clearInterval(timer));
+      }, CONDITION_UPDATE_INTERVAL_MS);
+      page.once('close', () => clearInterval(timer));
+    }
+
+    // Apply CPU throttling (always, even if 1 for consistency)
+    await cdpSession.send('Emulation.setCPUThrottlingRate', {
+      rate: cpu.rate,
+    });
+  }
+}
+
+/**
+ * Engine-agnostic network throttling for Firefox and WebKit, where CDP is unavailable.
+ *
+ * Every request is intercepted with `page.route`, delayed by the configured latency plus the
+ * upload time of its body, fetched, and then held back for the download time of the response
+ * before being fulfilled. Throughput is therefore applied per request rather than shared across
+ * concurrent requests, and intercepted requests bypass the browser HTTP cache. CPU throttling has
+ * no equivalent outside Chromium.
+ */
+export class RouteThrottlingStrategy implements ThrottlingStrategy {
+  readonly name = 'route';
+  readonly supportsCpuThrottling = false;
+
+  async apply(page: Page, network: NetworkConfig, cpu: CPUConfig): Promise<void> {
+    if (cpu.rate > 1) {
+      throw new BrowserError('CPU throttling is only supported on Chromium', {
+        rate: cpu.rate,
+      });
+    }
+
+    const isThrottled =
+      network.download_throughput > 0 ||
+      network.latency > 0 ||
+      (network.packet_loss ?? 0) > 0 ||
+      isTimeVarying(network);
+    if (!isThrottled) {
+      return;
+    }
+
+    // Each request takes the conditions in effect when it starts
+    const startedAt = Date.now();
+    await page.route('**/*', (route) =>
+      this.throttleRoute(route, conditionsAt(network, Date.now() - startedAt))
+    );
+  }
+
+  private async throttleRoute(route: Route, conditions: NetworkConditions): Promise<void> {
+    try {
+      const uploadBytes = route.request().postDataBuffer()?.length ?? 0;
+      await delay(conditions.latency + transferTimeMs(uploadBytes, conditions.upload_throughput));
+
+      // Don't follow redirects here - the browser issues (and we throttle) the follow-up request
+      const response = await route.fetch({ maxRedirects: 0 });
+      const body = await response.body();
+      await delay(transferTimeMs(body.length, conditions.download_throughput));
+
+      await route.fulfill({ response, body });
+    } catch (error) {
+      throttlingLogger.debug('Throttled request failed', {
+        url: route.request().url(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await route.abort().catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Pick the throttling strategy supported by the given browser engine
+ */
+export function createThrottlingStrategy(browserType: BrowserType): ThrottlingStrategy {
+  return browserType === 'chromium' ? new CdpThrottlingStrategy() : new RouteThrottlingStrategy();
+}
@@ -0,0 +1,251 @@
+import { PhaseTraceBreakdown, TraceActivity } from './types/metrics';
+
+/**
+ * An event of a Chrome trace (Trace Event Format); timestamps and durations in microseconds
+ */
+type TraceEvent = {
+  name: string;
+  cat?: string;
+  ph: string;
+  ts: number;
+  dur?: number;
+  pid: number;
+  tid: number;
+  args?: { name?: string; data?: { requestId?: string } };
+};
+
+type ActivityInterval = { start: number; end: number; activity: TraceActivity };
+
+/**
+ * Categories recorded by the DevTools Performance panel, plus user timing for the checkout marks
+ */
+export const TRACE_CATEGORIES = [
+  '-*',
+  'devtools.timeline',
+  'disabled-by-default-devtools.timeline',
+  'disabled-by-default-devtools.timeline.frame',
+  'disabled-by-default-devtools.timeline.stack',
+  'toplevel',
+  'blink.user_timing',
+  'loading',
+  'latencyInfo',
+  'v8.execute',
+  'v8',
+  'disabled-by-default-v8.compile',
+];
+
+/**
+ * Trace events counted towards each activity, grouped as in the DevTools Performance panel's
+ * summary (style recalculation counts as layout)
+ */
+const ACTIVITY_EVENTS: Record<TraceActivity, string[]> = {
+  scripting: [
+    'EvaluateScript',
+    'FunctionCall',
+    'TimerFire',
+    'EventDispatch',
+    'FireAnimationFrame',
+    'FireIdleCallback',
+    'RunMicrotasks',
+    'XHRReadyStateChange',
+    'XHRLoad',
+    'v8.execute',
+    'v8.evaluateModule',
+    'MajorGC',
+    'MinorGC',
+  ],
+  parse_compile: [
+    'ParseHTML',
+    'ParseAuthorStyleSheet',
+    'v8.compile',
+    'v8.compileModule',
+    'v8.parseOnBackground',
+    'v8.deserializeOnBackground',
+    'V8.CompileCode',
+  ],
+  layout: ['Layout', 'UpdateLayoutTree', 'RecalculateStyles', 'UpdateLayerTree', 'PrePaint'],
+  paint: ['Paint', 'PaintImage', 'Decode Image', 'Layerize', 'CompositeLayers', 'Commit'],
+};
+
+const EVENT_ACTIVITIES = new Map<string, TraceActivity>(
+  (Object.entries(ACTIVITY_EVENTS) as [TraceActivity, string[]][]).flatMap(([activity, names]) =>
+    names.map((name) => [name, activity] as const)
+  )
+);
+
+/**
+ * The events of a trace as returned by browser.stopTracing()
+ */
+export function parseTrace(trace: Buffer): TraceEvent[] {
+  const parsed = JSON.parse(trace.toString('utf8')) as TraceEvent[] | { traceEvents: TraceEvent[] };
+  return Array.isArray(parsed) ? parsed : parsed.traceEvents;
+}
+
+/**
+ * Break the windows of a trace down by main-thread activity and network idle time. Windows are on
+ * the page's performance timeline; the trace's user timing event of `anchor.mark` (a mark created
+ * at `anchor.time`) maps them onto the trace clock. Null when the trace lacks the mark.
+ */
+export function analyzeTrace(
+  events: TraceEvent[],
+  anchor: { mark: string; time: number },
+  windows: { start: number; end: number }[]
+): PhaseTraceBreakdown[] | null {
+  const markEvents = events.filter(
+    (event) => event.name === anchor.mark && event.cat?.includes('blink.user_timing')
+  );
+  if (markEvents.length === 0) {
+    return null;
+  }
+
+  // Trace timestamps of the windows, in ms
+  const offset = markEvents[markEvents.length - 1]!.ts / 1000 - anchor.time;
+  const traceWindows = windows.map((w) => ({ start: w.start + offset, end: w.end + offset }));
+
+  const activityIntervals = getActivityIntervals(events);
+  const requestIntervals = mergeIntervals(getRequestIntervals(events));
+
+  return traceWindows.map((window) => {
+    const breakdown: PhaseTraceBreakdown = {
+      scripting: 0,
+      parse_compile: 0,
+      layout: 0,
+      paint: 0,
+      network_idle: window.end - window.start,
+    };
+    for (const interval of activityIntervals) {
+      breakdown[interval.activity] += overlap(interval, window);
+    }
+    for (const interval of requestIntervals) {
+      breakdown.network_idle -= overlap(interval, window);
+    }
+    return breakdown;
+  });
+}
+
+/**
+ * Self time of every categorized event on the renderers' main threads, in ms: time spent in a
+ * nested categorized event (e.g. layout forced by a script) counts only towards the innermost one,
+ * and uncategorized events count towards the categorized event around them
+ */
+function getActivityIntervals(events: TraceEvent[]): ActivityInterval[] {
+  const mainThreads = new Set(
+    events
+      .filter(
+        (event) =>
+          event.ph === 'M' && event.name === 'thread_name' && event.args?.name === 'CrRendererMain'
+      )
+      .map((event) => `${event.pid}:${event.tid}`)
+  );
+
+  // Complete events, and begin/end pairs closed into complete events, per thread
+  const threads = new Map<string, ActivityInterval[]>();
+  const openEvents = new Map<string, TraceEvent[]>();
+  for (const event of events) {
+    const thread = `${event.pid}:${event.tid}`;
+    const activity = EVENT_ACTIVITIES.get(event.name);
+    if (!activity || !mainThreads.has(thread)) continue;
+
+    let interval: ActivityInterval | null = null;
+    if (event.ph === 'X' && event.dur !== undefined) {
+      interval = { start: event.ts / 1000, end: (event.ts + event.dur) / 1000, activity };
+    } else if (event.ph === 'B') {
+      const key = `${thread}:${event.name}`;
+      if (!openEvents.has(key)) {
+        openEvents.set(key, []);
+      }
+      openEvents.get(key)!.push(event);
+    } else if (event.ph === 'E') {
+      const begin = openEvents.get(`${thread}:${event.name}`)?.pop();
+      if (begin) {
+        interval = { start: begin.ts / 1000, end: event.ts / 1000, activity };
+      }
+    }
+
+    if (interval) {
+      if (!threads.has(thread)) {
+        threads.set(thread, []);
+      }
+      threads.get(thread)!.push(interval);
+    }
+  }
+
+  const selfIntervals: ActivityInterval[] = [];
+  for (const intervals of threads.values()) {
+    // Parents before their children
+    intervals.sort((a, b) => a.start - b.start || b.end - a.end);
+
+    const stack: ActivityInterval[] = [];
+    let cursor = -Infinity;
+    const advance = (time: number) => {
+      while (stack.length > 0) {
+        const top = stack[stack.length - 1]!;
+        const end = Math.min(top.end, time);
+        if (end > cursor) {
+          selfIntervals.push({ start: cursor, end, activity: top.activity });
+          cursor = end;
+        }
+        if (top.end > time) break;
+        stack.pop();
+      }
+      cursor = Math.max(cursor, time);
+    };
+
+    for (const interval of intervals) {
+      advance(interval.start);
+      stack.push(interval);
+    }
+    advance(Infinity);
+  }
+
+  return selfIntervals;
+}
+
+/**
+ * When each request was in flight, in ms: from being sent until it finished, or until the end of
+ * the trace for requests still pending when tracing stopped
+ */
+function getRequestIntervals(events: TraceEvent[]): { start: number; end: number }[] {
+  const sent = new Map<string, number>();
+  const finished = new Map<string, number>();
+  let traceEnd = -Infinity;
+
+  for (const event of events) {
+    traceEnd = Math.max(traceEnd, (event.ts + (event.dur ?? 0)) / 1000);
+    const requestId = event.args?.data?.requestId;
+    if (!requestId) continue;
+
+    if (event.name === 'ResourceSendRequest' && !sent.has(requestId)) {
+      sent.set(requestId, event.ts / 1000);
+    } else if (event.name === 'ResourceFinish') {
+      finished.set(requestId, event.ts / 1000);
+    }
+  }
+
+  return [...sent].map(([requestId, start]) => ({
+    start,
+    end: finished.get(requestId) ?? traceEnd,
+  }));
+}
+
+/**
+ * Union of intervals, sorted and without overlaps
+ */
+function mergeIntervals(
+  intervals: { start: number; end: number }[]
+): { start: number; end: number }[] {
+  const merged: { start: number; end: number }[] = [];
+  for (const interval of [...intervals].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+function overlap(a: { start: number; end: number }, b: { start: number; end: number }): number {
+  return Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+}
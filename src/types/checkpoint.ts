@@ -0,0 +1,34 @@
+import {
+  BlockingScript,
+  ExecutionContext,
+  FailedIteration,
+  InjectedFault,
+  LongTask,
+  Measurement,
+  TraceBreakdown,
+} from './metrics';
+import { NetworkRequest } from './network';
+
+export type ContextCheckpoint = {
+  context: ExecutionContext;
+  completed_iterations: number;
+  complete: boolean;
+  measurements: Record<string, Measurement[]>;
+  network_requests: NetworkRequest[];
+  failed_iterations: FailedIteration[];
+  injected_faults: InjectedFault[];
+  long_tasks?: LongTask[] | undefined; // Absent in checkpoints written before long tasks were recorded
+  blocking_scripts?: BlockingScript[] | undefined; // Absent in checkpoints written before script attribution
+  trace_breakdowns?: TraceBreakdown[] | undefined; // Absent in checkpoints written before tracing
+};
+
+export type CheckpointFile = {
+  version: number;
+  fingerprint: string;
+  created_at: string;
+  updated_at: string;
+  /** Last execution sequence number handed out, so resumed runs continue the numbering */
+  last_sequence: number;
+  // product name -> context key -> progress
+  products: Record<string, Record<string, ContextCheckpoint>>;
+};
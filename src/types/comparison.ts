@@ -0,0 +1,25 @@
+import { ExecutionContext, BenchmarkMetric } from './metrics';
+
+/**
+ * One metric of one product and combination, measured in both runs
+ */
+export type MetricComparison = {
+  product: string;
+  context: ExecutionContext;
+  metric: BenchmarkMetric;
+  baseline_median: number;
+  candidate_median: number;
+  /** Relative change of the median; positive is slower */
+  change_percent: number;
+  regressed: boolean;
+};
+
+export type ResultsComparison = {
+  baseline_timestamp: string;
+  candidate_timestamp: string;
+  /** Slowdown of a median, in percent, that counts as a regression */
+  threshold_percent: number;
+  comparisons: MetricComparison[];
+  /** Products, combinations and metrics measured in only one of the runs */
+  unmatched: string[];
+};
@@ -1,10 +1,33 @@
+import { InitialLoadMetrics, PostLoadInteraction } from './metrics';
+
 export type ConnectionType = 'cellular3g' | 'cellular4g' | 'wifi';
 
+export type ReturningUserConfig = {
+  contact_number: string;
+  otp?: string | undefined;
+};
+
 export type ProductConfig = {
   name: string;
   entry_url: string;
   pom_file: string;
   enabled: boolean;
+  /** Test account used by the POM to seed logged-in user states */
+  returning_user?: ReturningUserConfig | undefined;
+  /**
+   * Post-load interactions to perform, of those the POM supports. By default every supported one
+   * except those submitting the checkout (SUBMITTING_INTERACTIONS).
+   */
+  interactions?: PostLoadInteraction[] | undefined;
+};
+
+/**
+ * Time-varying bandwidth replayed from Mahimahi packet-delivery traces; each trace loops
+ */
+export type NetworkTraceConfig = {
+  downlink_file: string;
+  /** Without an uplink trace, `upload_throughput` stays constant */
+  uplink_file?: string | undefined;
 };
 
 export type NetworkConfig = {
@@ -13,6 +36,12 @@ export type NetworkConfig = {
   latency: number;
   enabled: boolean;
   connection_type: ConnectionType;
+  /** Random packet loss in percent (0-100), modelled as the TCP loss-limited throughput */
+  packet_loss?: number | undefined;
+  /** Latency varies uniformly by up to ± this many milliseconds during a load */
+  jitter?: number | undefined;
+  /** Replaces the constant throughputs with trace bandwidth over the load */
+  trace?: NetworkTraceConfig | undefined;
 };
 
 export type CPUConfig = {
@@ -23,6 +52,21 @@ export type CPUConfig = {
 export type UserStateConfig = {
   is_logged_in: boolean;
   enabled: boolean;
+  /** Pre-recorded Playwright storageState file; skips seeding through the POM when set */
+  storage_state_file?: string | undefined;
+};
+
+/**
+ * How warm the browser cache is for a measured load:
+ * - cold: fresh context with the HTTP cache cleared
+ * - warm: fresh context primed by an unmeasured load in another page
+ * - repeat_view: checkout reopened in the same page right after an unmeasured first view
+ */
+export type CacheStateMode = 'cold' | 'warm' | 'repeat_view';
+
+export type CacheStateConfig = {
+  mode: CacheStateMode;
+  enabled: boolean;
 };
 
 export type BrowserType = 'chromium' | 'firefox' | 'webkit';
@@ -32,22 +76,140 @@ export type ViewportConfig = {
   height: number;
 };
 
+/**
+ * Emulated device. `descriptor` names a Playwright device (e.g. 'Pixel 7', 'Desktop Chrome');
+ * the other fields override it, or describe a custom device on their own.
+ */
+export type DeviceConfig = {
+  descriptor?: string | undefined;
+  viewport?: ViewportConfig | undefined;
+  device_scale_factor?: number | undefined;
+  /** Fixed user agent; mobile devices without one get one from the built-in list */
+  user_agent?: string | undefined;
+  is_mobile?: boolean | undefined;
+  has_touch?: boolean | undefined;
+  enabled: boolean;
+};
+
+/**
+ * User agent matrix entry. Without `value` the device's user agent (or the run's selection) is used.
+ */
+export type UserAgentConfig = {
+  value?: string | undefined;
+  enabled: boolean;
+};
+
+/**
+ * What happens to a request matching a fault rule:
+ * - abort: the request fails with a network error
+ * - delay: the request is held for `delay_ms` before it goes out
+ * - status: the request is answered with HTTP `status` and an empty body
+ */
+export type FaultAction = 'abort' | 'delay' | 'status';
+
+export type FaultRule = {
+  /** Playwright glob matched against the request URL, e.g. a coupons API or a CDN script */
+  url_pattern: string;
+  action: FaultAction;
+  delay_ms?: number | undefined;
+  status?: number | undefined;
+  /** Chance (0-1) that a matching request is affected; 1 by default */
+  probability?: number | undefined;
+};
+
+/**
+ * Fault injection matrix entry. A profile without rules leaves every request untouched.
+ */
+export type FaultConfig = {
+  rules: FaultRule[];
+  enabled: boolean;
+};
+
+/**
+ * How mobile devices without a user agent of their own get one:
+ * - random: a random entry of the built-in list for every browser context
+ * - seeded: one entry of the built-in list picked by `seed`, the same for the whole run (default)
+ * - fixed: `value` for every browser context
+ */
+export type UserAgentMode = 'random' | 'seeded' | 'fixed';
+
+export type UserAgentSelectionConfig = {
+  mode: UserAgentMode;
+  seed: number;
+  value?: string | undefined;
+};
+
+/**
+ * What to do once an iteration has exhausted its retries:
+ * - abort: stop the run (default)
+ * - skip: record the failure and continue with the next iteration
+ * - budget: like skip, but abandon a combination once its failures exceed `max_failure_percentage`
+ */
+export type FailurePolicyMode = 'abort' | 'skip' | 'budget';
+
+export type FailurePolicyConfig = {
+  mode: FailurePolicyMode;
+  /** Share of a combination's iterations allowed to fail under the `budget` mode */
+  max_failure_percentage: number;
+};
+
+/**
+ * - sequential: each product runs all of its iterations before the next product starts (default)
+ * - interleaved: products (and optionally contexts) take turns, one iteration at a time
+ */
+export type SchedulingMode = 'sequential' | 'interleaved';
+
+export type SchedulingOrder = 'round_robin' | 'random';
+
+export type SchedulingConfig = {
+  mode: SchedulingMode;
+  /** Order within each interleaved round: rotating round-robin or a seeded shuffle */
+  order: SchedulingOrder;
+  seed: number;
+  /** Also interleave contexts of the same browser engine, not just products */
+  interleave_contexts: boolean;
+};
+
+/**
+ * Run at least `min_iterations`, then keep iterating a combination until the confidence interval of
+ * `metric` is narrower than `target_relative_width` of its mean, or `max_iterations` is reached
+ */
+export type AdaptiveIterationsConfig = {
+  enabled: boolean;
+  metric: InitialLoadMetrics;
+  min_iterations: number;
+  max_iterations: number;
+  /** Full confidence interval width relative to the mean, e.g. 0.1 for ±5% */
+  target_relative_width: number;
+  /** One of 0.9, 0.95 or 0.99 */
+  confidence_level: number;
+};
+
 export type ExecutionConfig = {
   iterations: number;
   timeout: number;
   headless: boolean;
   browsers: BrowserType[];
-  viewport: ViewportConfig;
+  /** Number of combinations run in parallel, each on its own browser */
+  concurrency: number;
   retry: {
     max_attempts: number;
     delay_between_retries: number;
   };
+  failure_policy: FailurePolicyConfig;
+  scheduling: SchedulingConfig;
+  adaptive: AdaptiveIterationsConfig;
+  user_agent: UserAgentSelectionConfig;
 };
 
 export type ExecutionMatrixConfig = {
   network: Record<string, NetworkConfig>;
   cpu: Record<string, CPUConfig>;
   user_state: Record<string, UserStateConfig>;
+  cache_state: Record<string, CacheStateConfig>;
+  device: Record<string, DeviceConfig>;
+  user_agent: Record<string, UserAgentConfig>;
+  fault: Record<string, FaultConfig>;
 };
 
 export type OutputFormat = 'csv' | 'json' | 'html';
@@ -55,11 +217,66 @@ export type OutputFormat = 'csv' | 'json' | 'html';
 export type OutputConfig = {
   formats: OutputFormat[];
   directory: string;
+  /** Identifier of the scheduled run these results belong to, recorded in the results */
+  run_id?: string | undefined;
+};
+
+export type CheckpointConfig = {
+  enabled: boolean;
+  /** JSON file progress is written to after every measured iteration */
+  file: string;
+  /** Skip work already recorded in the checkpoint file and append to its measurements */
+  resume: boolean;
+};
+
+/**
+ * Where page loads get their responses:
+ * - off: live servers (default)
+ * - record: live servers, saving each product's warmup load as a HAR archive
+ * - replay: only the recorded HAR archive, throttled like a live load; unrecorded requests fail
+ */
+export type HarMode = 'off' | 'record' | 'replay';
+
+export type HarConfig = {
+  mode: HarMode;
+  /** One archive per product and entry URL is written to / read from this directory */
+  directory: string;
+  /** Simulated server processing time added to every replayed response */
+  think_time_ms: number;
+};
+
+/**
+ * Chrome performance traces of measured iterations (Chromium only), saved under
+ * `<output.directory>/traces`
+ */
+export type TracingConfig = {
+  enabled: boolean;
+  /** Trace every Nth measured iteration of each combination, starting with the first */
+  sample_every: number;
+};
+
+/**
+ * Scheduler mode: runs the configured matrix repeatedly, each run in its own directory under
+ * `<output.directory>/runs`
+ */
+export type DaemonConfig = {
+  /** Five-field cron expression (minute hour day-of-month month day-of-week), in local time */
+  schedule: string;
+  /** Each run starts at a random offset of up to this many minutes after its slot */
+  spread_minutes: number;
+  /** Run directories kept; older ones are deleted after each run */
+  keep_runs: number;
 };
 
 export type Config = {
   products: ProductConfig[];
+  /** Modules (paths or packages) exporting register(registry), adding POMs products can name */
+  pom_plugins: string[];
   execution_matrix: ExecutionMatrixConfig;
   execution: ExecutionConfig;
   output: OutputConfig;
+  checkpoint: CheckpointConfig;
+  har: HarConfig;
+  tracing: TracingConfig;
+  daemon: DaemonConfig;
 };
@@ -1,4 +1,12 @@
-import { ExecutionConfig, ExecutionMatrixConfig, ProductConfig } from './config';
+import {
+  BrowserType,
+  ExecutionConfig,
+  ExecutionMatrixConfig,
+  FaultAction,
+  HarConfig,
+  ProductConfig,
+  TracingConfig,
+} from './config';
 import { SystemInfo } from '../utils/system-info';
 
 export type InitialLoadMetrics =
@@ -9,17 +17,91 @@ export type InitialLoadMetrics =
   | 'content_to_interactive'
   | 'tti_internal';
 
+/**
+ * Core Web Vitals observed inside the checkout frame
+ */
+export type WebVitalsMetrics = 'fcp' | 'lcp' | 'cls' | 'inp';
+
+/**
+ * Total Blocking Time of each load phase
+ */
+export type MainThreadMetrics =
+  | 'tbt_click_to_popup'
+  | 'tbt_popup_to_content'
+  | 'tbt_content_to_interactive';
+
+/**
+ * Latency of each post-load interaction, from the input to the next paint
+ */
+export type InteractionMetrics =
+  | 'inp_type_contact_number'
+  | 'inp_tap_continue'
+  | 'inp_open_coupons';
+
+export type BenchmarkMetric =
+  | InitialLoadMetrics
+  | WebVitalsMetrics
+  | MainThreadMetrics
+  | InteractionMetrics;
+
+/**
+ * Interactions a POM can perform once the checkout has loaded and the main thread is idle
+ */
+export type PostLoadInteraction = 'type_contact_number' | 'tap_continue' | 'open_coupons';
+
+/**
+ * The consecutive phases of a checkout load, from the click until the main thread is idle
+ */
+export type LoadPhase = Extract<
+  InitialLoadMetrics,
+  'click_to_popup' | 'popup_to_content' | 'content_to_interactive'
+>;
+
 export type ExecutionContext = {
   network: string;
   cpu: string;
   user_state: string;
-  browser: string;
+  browser: BrowserType;
+  cache_state: string;
+  device: string;
+  user_agent: string;
+  fault: string;
+};
+
+export type FailedIteration = {
+  combination: ExecutionContext;
+  /** 0 for the warmup iteration */
+  iteration: number;
+  error: string;
+  error_class: string;
+  attempts: number;
+  timestamp: string;
+};
+
+/**
+ * A request a fault rule affected during a measured iteration
+ */
+export type InjectedFault = {
+  combination: ExecutionContext;
+  iteration: number;
+  url: string;
+  url_pattern: string;
+  action: FaultAction;
+  delay_ms?: number | undefined;
+  status?: number | undefined;
+  timestamp: string;
 };
 
 export type Measurement = {
   iteration: number;
   value: number;
   unit: string;
+  /** Position of the measured iteration in the run's actual execution order, across products */
+  sequence?: number | undefined;
+  /** Wall-clock time the measurement was recorded */
+  timestamp?: string | undefined;
+  /** User agent the browser actually reported for the measured page */
+  user_agent?: string | undefined;
 };
 
 export type MetricStatistics = {
@@ -34,20 +116,129 @@ export type MetricMetadata = {
   description: string;
 };
 
+/**
+ * Web vitals read from the checkout frame, with paint times converted to the page's performance
+ * timeline so they compare with the checkout milestones. Unset when the browser does not support
+ * the entry type or nothing was observed.
+ */
+export type WebVitalsSnapshot = {
+  fcp?: number | undefined;
+  lcp?: number | undefined;
+  cls?: number | undefined;
+  inp?: number | undefined;
+};
+
+/**
+ * A main-thread task of 50ms or more during a measured load, as observed by the frame that ran it
+ */
+export type LongTask = {
+  iteration: number;
+  /** Phase the task started in; tasks already running at the click count towards the first */
+  phase: LoadPhase;
+  /** Start, relative to the checkout click */
+  start: number;
+  duration: number;
+  /** Part of the task beyond 50ms that fell between the click and main thread idle */
+  blocking_time: number;
+  /** URL and name of the frame whose event loop ran the task */
+  frame_url: string;
+  frame_name?: string | undefined;
+  /** Long task attribution: the browsing context ('self', 'multiple-contexts', ...) and its container */
+  attribution: string;
+  container_type?: string | undefined;
+  container_name?: string | undefined;
+  container_id?: string | undefined;
+  container_src?: string | undefined;
+};
+
+/**
+ * A script that ran in long animation frames during a checkout load, summed per iteration
+ */
+export type BlockingScript = {
+  iteration: number;
+  /** Phase its executions started in; executions already running at the click count towards the first */
+  phase: LoadPhase;
+  source_url: string;
+  function_name: string;
+  /** What ran the script, e.g. its URL for a classic script or 'BUTTON#buy.onclick' for a handler */
+  invoker: string;
+  /** 'classic-script', 'event-listener', 'user-callback', 'resolve-promise', ... */
+  invoker_type: string;
+  /** URL of the frame whose event loop ran the script */
+  frame_url: string;
+  /** Executions summed */
+  count: number;
+  /** Total run time of the executions */
+  duration: number;
+  /** Part of duration spent in style and layout the script forced */
+  forced_style_and_layout_duration: number;
+};
+
+/**
+ * Main-thread activities a Chrome trace is broken down into
+ */
+export type TraceActivity = 'scripting' | 'parse_compile' | 'layout' | 'paint';
+
+/**
+ * Milliseconds of a load phase spent in each main-thread activity, summed over every renderer's
+ * main thread, and with no request in flight
+ */
+export type PhaseTraceBreakdown = Record<TraceActivity, number> & { network_idle: number };
+
+/**
+ * Breakdown of an iteration's Chrome trace by load phase
+ */
+export type TraceBreakdown = {
+  iteration: number;
+  /** Gzipped trace, relative to the results directory; opens in the DevTools Performance panel */
+  trace_file: string;
+  phases: Record<LoadPhase, PhaseTraceBreakdown>;
+};
+
+/**
+ * A metric as the time between two checkout milestones
+ */
+export type MetricDefinition = {
+  start: string;
+  end: string;
+};
+
+/**
+ * Confidence interval achieved for a context's precision metric
+ */
+export type ContextPrecision = {
+  metric: InitialLoadMetrics;
+  confidence_level: number;
+  iterations: number;
+  mean: number;
+  ci_lower: number;
+  ci_upper: number;
+  relative_width: number;
+  /** Only set for adaptive runs */
+  target_relative_width?: number | undefined;
+  target_met?: boolean | undefined;
+};
+
 export type ContextResults = {
   context: ExecutionContext;
+  precision?: ContextPrecision | undefined; // Optional for backward compatibility
   metrics: Record<
-    InitialLoadMetrics,
+    BenchmarkMetric,
     {
       measurements: Measurement[];
       statistics: MetricStatistics;
     }
   >;
+  long_tasks?: LongTask[] | undefined; // Optional for backward compatibility
+  blocking_scripts?: BlockingScript[] | undefined; // Optional for backward compatibility
+  trace_breakdowns?: TraceBreakdown[] | undefined; // One per traced iteration; optional for backward compatibility
 };
 
 export type ProductResults = {
   product: string;
   results: ContextResults[];
+  failed_iterations?: FailedIteration[] | undefined; // Optional for backward compatibility
+  injected_faults?: InjectedFault[] | undefined; // Optional for backward compatibility
 };
 
 export type BenchmarkResults = {
@@ -55,7 +246,10 @@ export type BenchmarkResults = {
   execution_config: ExecutionConfig;
   execution_matrix: ExecutionMatrixConfig;
   products_config: ProductConfig[];
-  metrics_metadata: Record<InitialLoadMetrics, MetricMetadata>;
+  metrics_metadata: Record<BenchmarkMetric, MetricMetadata>;
   products: ProductResults[];
   system_info?: SystemInfo | undefined; // Optional for backward compatibility
+  har?: HarConfig | undefined; // Optional for backward compatibility
+  tracing?: TracingConfig | undefined; // Optional for backward compatibility
+  run_id?: string | undefined; // Set for runs started by the scheduler
 };
@@ -88,6 +88,16 @@ export type NetworkAnalysis = {
   dependencies: RequestDependency[];
 };
 
+/**
+ * URL patterns deciding which requests the network monitor tracks
+ */
+export type NetworkRequestFilter = {
+  /** Requests are tracked when their URL matches any of these; Razorpay's by default */
+  include?: RegExp[] | undefined;
+  /** Excluded on top of the built-in analytics and ads exclusions */
+  exclude?: RegExp[] | undefined;
+};
+
 export type ContextNetworkResults = {
   context: ExecutionContext;
   requests: RequestStatistics[];
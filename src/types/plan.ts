@@ -0,0 +1,31 @@
+import { Config } from './config';
+import { ExecutionContext } from './metrics';
+
+export type Range = {
+  min: number;
+  max: number;
+};
+
+/**
+ * One parallel CI job, mirroring the workflow's calculate-matrix step
+ */
+export type CiShard = {
+  job_id: number;
+  iterations_per_combo: number;
+  total_iterations: number;
+  estimated_duration_ms: Range;
+};
+
+export type ExecutionPlan = {
+  generated_at: string;
+  config: Config;
+  products: string[];
+  combinations: ExecutionContext[];
+  /** Measured iterations per combination and product (a range in adaptive mode) */
+  iterations_per_combination: Range;
+  total_iterations: Range;
+  estimated_duration_ms: Range;
+  /** Extra wall-clock time each iteration that exhausts its retries can add */
+  retry_overhead_per_failure_ms: number;
+  shards?: CiShard[] | undefined;
+};
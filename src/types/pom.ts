@@ -1,4 +1,66 @@
+import { Page } from 'playwright';
+import { ProductConfig, UserStateConfig } from './config';
+import { PostLoadInteraction } from './metrics';
+import { PerformanceMonitor } from '../performance';
+import { NetworkMonitor } from '../network-monitor';
+
+/**
+ * When each checkout milestone was reached, keyed by milestone (see PERFORMANCE_MARKERS), as
+ * timestamps on the page's performance timeline
+ */
+export type CheckoutMilestones = Record<string, number>;
+
 export interface POM {
   initialize(): Promise<void>;
-  triggerCheckout(skipMetrics: boolean): Promise<void>;
+  /**
+   * Open the checkout and report its milestones; the framework derives every metric from them
+   * (METRIC_DEFINITIONS). Warmups pass skipMetrics, so network monitoring and any extra work only
+   * needed for metrics can be skipped.
+   */
+  triggerCheckout(skipMetrics: boolean): Promise<CheckoutMilestones>;
+  /**
+   * Log in / seed a returning user in the current page so its storageState
+   * (cookies, localStorage, saved addresses) can be reused by logged-in iterations
+   */
+  seedUserState?(userState: UserStateConfig): Promise<void>;
+  /**
+   * iframe selectors from the page down to the checkout's frame, outermost first. Web vitals are
+   * read from this frame; from the page itself when unset.
+   */
+  readonly checkoutFrame?: string[] | undefined;
+  /**
+   * Post-load interactions the POM can perform, in the order they run once the main thread is idle.
+   * Leave an interaction out when the checkout has no equivalent; its metric is then not recorded.
+   * Interactions submitting the checkout (SUBMITTING_INTERACTIONS) go last.
+   */
+  readonly interactions?: PostLoadInteraction[] | undefined;
+  /**
+   * Perform one of `interactions` with real input the browser times as interactions: clicks and
+   * key presses (pressSequentially), not fill, which dispatches no key events
+   */
+  interact?(interaction: PostLoadInteraction): Promise<void>;
 }
+
+/**
+ * A POM class, constructed once per page load
+ */
+export type POMConstructor = new (
+  page: Page,
+  product: ProductConfig,
+  performanceMonitor: PerformanceMonitor,
+  networkMonitor: NetworkMonitor
+) => POM;
+
+/**
+ * What a POM plugin receives to register its POMs under names products can use as `pom_file`
+ */
+export interface POMRegistrar {
+  register(name: string, pom: POMConstructor): void;
+}
+
+/**
+ * Module listed in `pom_plugins`, registering any number of POMs
+ */
+export type POMPlugin = {
+  register(registry: POMRegistrar): void | Promise<void>;
+};
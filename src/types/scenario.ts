@@ -0,0 +1,78 @@
+import { PostLoadInteraction } from './metrics';
+
+/**
+ * An element in the page or in a (nested) iframe. Exactly one of selector, role, text or test_id
+ * picks the element; a locator with only frames stands for the innermost frame's body.
+ */
+export type ScenarioLocator = {
+  /** iframe selectors from the page down to the element's frame, outermost first */
+  frames?: string[] | undefined;
+  /** CSS or Playwright selector */
+  selector?: string | undefined;
+  /** ARIA role, narrowed by name, e.g. role button with name "Buy Now" */
+  role?: string | undefined;
+  name?: string | undefined;
+  text?: string | undefined;
+  test_id?: string | undefined;
+  /** Match name/text exactly instead of by substring */
+  exact?: boolean | undefined;
+  /** Which match to use when several elements match; the first by default */
+  nth?: number | undefined;
+};
+
+export type ScenarioAction =
+  | 'goto'
+  | 'click'
+  | 'fill'
+  | 'type'
+  | 'wait_for'
+  | 'wait'
+  | 'wait_for_load_state';
+
+export type ScenarioStep = {
+  action: ScenarioAction;
+  /** Element to click, fill, type into or wait for */
+  target?: ScenarioLocator | undefined;
+  /** URL for goto */
+  url?: string | undefined;
+  /**
+   * Text for fill and type (key by key); {{contact_number}} and {{otp}} are replaced with the
+   * returning user's
+   */
+  value?: string | undefined;
+  /** Pause for wait */
+  duration_ms?: number | undefined;
+  /** Load state for wait_for_load_state */
+  state?: 'load' | 'domcontentloaded' | 'networkidle' | undefined;
+  /** Skip the step instead of failing when its value uses a placeholder that is not set */
+  optional?: boolean | undefined;
+};
+
+/**
+ * Declarative description of a product's checkout, interpreted by the scenario POM
+ */
+export type CheckoutScenario = {
+  /** Steps after loading entry_url and before every measured click, e.g. adding to the cart */
+  steps: ScenarioStep[];
+  /** The element whose click starts the measurement */
+  click: ScenarioLocator;
+  milestones: {
+    /** Visible once the checkout popup appears */
+    popup: ScenarioLocator;
+    /** Visible once the checkout's content has rendered */
+    content: ScenarioLocator;
+  };
+  /** Requests tracked by the network monitor; Razorpay requests by default */
+  network_filter?:
+    | {
+        /** Regular expressions; a request is tracked when its URL matches any of them */
+        include?: string[] | undefined;
+        /** Regular expressions excluded on top of the built-in analytics and ads exclusions */
+        exclude?: string[] | undefined;
+      }
+    | undefined;
+  /** Steps signing in the product's returning_user, run after loading entry_url */
+  seed_user_state?: ScenarioStep[] | undefined;
+  /** Steps of each post-load interaction, run in the listed order once the main thread is idle */
+  interactions?: Partial<Record<PostLoadInteraction, ScenarioStep[]>> | undefined;
+};
@@ -4,6 +4,33 @@
  */
 
 import { logger } from './logger';
+import { BrowserType } from '../types/config';
+import { ExecutionContext } from '../types/metrics';
+
+/**
+ * Key identifying an execution context in measurement maps and checkpoints
+ */
+export function getContextKey(context: ExecutionContext): string {
+  return `${context.network}|${context.cpu}|${context.user_state}|${context.browser}|${context.cache_state}|${context.device}|${context.user_agent}|${context.fault}`;
+}
+
+/**
+ * Inverse of getContextKey
+ */
+export function parseContextKey(contextKey: string): ExecutionContext {
+  const [network, cpu, user_state, browser, cache_state, device, user_agent, fault] =
+    contextKey.split('|');
+  return {
+    network,
+    cpu,
+    user_state,
+    browser: browser as BrowserType,
+    cache_state,
+    device,
+    user_agent,
+    fault,
+  };
+}
 
 /**
  * Delay execution for specified milliseconds
@@ -188,6 +215,58 @@ export function calculateStatistics(values: number[]): Statistics {
   };
 }
 
+/**
+ * Two-sided normal critical values for the supported confidence levels
+ */
+export const CONFIDENCE_LEVEL_Z: Record<number, number> = {
+  0.9: 1.6449,
+  0.95: 1.96,
+  0.99: 2.5758,
+};
+
+export interface ConfidenceInterval {
+  mean: number;
+  lower: number;
+  upper: number;
+  /** Full interval width divided by the mean */
+  relativeWidth: number;
+  count: number;
+}
+
+/**
+ * Student-t confidence interval for the mean of a sample, or null with fewer than 2 values.
+ * The t critical value comes from a Cornish-Fisher expansion of the normal one (within 3% at 3 values).
+ */
+export function calculateConfidenceInterval(
+  values: number[],
+  confidenceLevel: number
+): ConfidenceInterval | null {
+  const count = values.length;
+  const z = CONFIDENCE_LEVEL_Z[confidenceLevel];
+  if (count < 2 || z === undefined) {
+    return null;
+  }
+
+  const mean = values.reduce((acc, val) => acc + val, 0) / count;
+  const variance = values.reduce((acc, val) => acc + Math.pow(val - mean, 2), 0) / (count - 1);
+
+  const df = count - 1;
+  const t =
+    z +
+    (z ** 3 + z) / (4 * df) +
+    (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * df ** 2) +
+    (3 * z ** 7 + 19 * z ** 5 + 17 * z ** 3 - 15 * z) / (384 * df ** 3);
+  const halfWidth = (t * Math.sqrt(variance)) / Math.sqrt(count);
+
+  return {
+    mean,
+    lower: mean - halfWidth,
+    upper: mean + halfWidth,
+    relativeWidth: mean > 0 ? (2 * halfWidth) / mean : Infinity,
+    count,
+  };
+}
+
 /**
  * Format bytes to human readable string
  */
@@ -387,20 +466,65 @@ export function randomDelayWithJitter(baseMs: number, jitterPercent: number = 20
   return Math.max(100, baseMs + jitter); // Minimum 100ms delay
 }
 
+/**
+ * Deterministic pseudo-random generator (mulberry32) returning values in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffle into a new array (Fisher-Yates) using the given random source
+ */
+export function shuffle<T>(array: T[], random: () => number = Math.random): T[] {
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Delays inserted between iterations, shared with the execution planner's duration estimate
+ */
+export const ITERATION_DELAY = {
+  minMs: 3000,
+  maxMs: 8000,
+  jitterPercent: 25,
+  extendedEvery: 10,
+  extendedMinMs: 30000,
+  extendedMaxMs: 60000,
+  extendedJitterPercent: 15,
+};
+
 /**
  * Generate smart delays for iteration management
  */
 export function generateIterationDelay(iteration: number): number {
   // Base delay between iterations (3-8 seconds)
-  const baseDelay = randomBetween(3000, 8000);
+  const baseDelay = randomBetween(ITERATION_DELAY.minMs, ITERATION_DELAY.maxMs);
 
   // Add jitter to prevent thundering herd
-  const jitteredDelay = randomDelayWithJitter(baseDelay, 25);
+  const jitteredDelay = randomDelayWithJitter(baseDelay, ITERATION_DELAY.jitterPercent);
 
   // Extended delay after every 10 iterations (30-60 seconds)
-  if (iteration > 0 && iteration % 10 === 0) {
-    const extendedDelay = randomBetween(30000, 60000);
-    const jitteredExtendedDelay = randomDelayWithJitter(extendedDelay, 15);
+  if (iteration > 0 && iteration % ITERATION_DELAY.extendedEvery === 0) {
+    const extendedDelay = randomBetween(
+      ITERATION_DELAY.extendedMinMs,
+      ITERATION_DELAY.extendedMaxMs
+    );
+    const jitteredExtendedDelay = randomDelayWithJitter(
+      extendedDelay,
+      ITERATION_DELAY.extendedJitterPercent
+    );
     logger.info(
       `🕐 Extended delay after iteration ${iteration}: ${Math.round(jitteredExtendedDelay / 1000)}s`
     );
@@ -441,6 +565,13 @@ export function getRandomUserAgent(): string {
   return USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)];
 }
 
+/**
+ * Get the user agent a seed maps to, the same on every call
+ */
+export function getSeededUserAgent(seed: number): string {
+  return USER_AGENTS[Math.floor(createSeededRandom(seed)() * USER_AGENTS.length)];
+}
+
 /**
  * Enhanced exponential backoff with jitter and maximum limits
  */
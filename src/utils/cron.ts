@@ -0,0 +1,134 @@
+/**
+ * Minimal cron expression support for the scheduler mode
+ * Standard five fields with `*`, values, ranges, lists and steps, evaluated in local time
+ */
+
+import { ConfigurationError } from './errors';
+
+/**
+ * Parsed cron expression: the values each field matches
+ */
+export type CronSchedule = {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 is Sunday */
+  daysOfWeek: Set<number>;
+  /** Whether the day-of-month and day-of-week fields are restricted (not `*`) */
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+};
+
+type CronField = { name: string; min: number; max: number };
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 7 is accepted as Sunday, like most cron implementations
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+/**
+ * How far ahead to look for a matching time before giving up (covers leap days)
+ */
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseCronField(value: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of value.split(',')) {
+    const match = /^(?:(\*)|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new ConfigurationError(`Invalid cron ${field.name} field: ${value}`);
+    }
+
+    const [, wildcard, start, end, step] = match;
+    const from = wildcard ? field.min : Number(start);
+    // A single value with a step ("5/15") runs from that value to the end of the range
+    const to = wildcard || (step && !end) ? field.max : Number(end ?? start);
+    const increment = step ? Number(step) : 1;
+
+    if (from < field.min || to > field.max || from > to || increment < 1) {
+      throw new ConfigurationError(
+        `Cron ${field.name} field out of range: ${value} (allowed ${field.min}-${field.max})`
+      );
+    }
+
+    for (let v = from; v <= to; v += increment) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day-of-month month day-of-week)
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new ConfigurationError(
+      `Cron expression must have ${CRON_FIELDS.length} fields (minute hour day-of-month month day-of-week): ${expression}`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((value, index) =>
+    parseCronField(value, CRON_FIELDS[index])
+  );
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek: new Set([...daysOfWeek].map((day) => day % 7)),
+    restrictsDayOfMonth: fields[2] !== '*',
+    restrictsDayOfWeek: fields[4] !== '*',
+  };
+}
+
+/**
+ * Like cron, a day matches either restricted day field when both are restricted
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * First minute strictly after the given time that the schedule fires at
+ */
+export function getNextCronTime(schedule: CronSchedule, after: Date): Date {
+  const next = new Date(after);
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  while (next.getTime() - after.getTime() <= MAX_LOOKAHEAD_MS) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0);
+    } else {
+      return next;
+    }
+  }
+
+  throw new ConfigurationError(`Cron expression never fires: ${schedule.expression}`);
+}
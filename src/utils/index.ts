@@ -18,3 +18,6 @@ export * from './cache';
 
 // System information utilities
 export * from './system-info';
+
+// Scheduling utilities
+export * from './cron';
@@ -9,9 +9,22 @@ import {
   NetworkConfig,
   CPUConfig,
   UserStateConfig,
+  CacheStateConfig,
+  DeviceConfig,
+  UserAgentConfig,
+  FaultConfig,
   ExecutionConfig,
+  CheckpointConfig,
+  HarConfig,
+  TracingConfig,
+  DaemonConfig,
 } from '../types/config';
+import { CheckoutScenario } from '../types/scenario';
+import { devices } from 'playwright';
 import { ValidationError } from './errors';
+import { CONFIDENCE_LEVEL_Z } from './common';
+import { getNextCronTime, parseCronExpression } from './cron';
+import { INTERACTION_METRICS, METRICS } from '../constants/metrics';
 
 /**
  * Validation result type
@@ -89,7 +102,7 @@ export class ProductConfigValidator extends BaseValidator<ProductConfig> {
       return this.createResult(false, undefined, ['Product config must be an object']);
     }
 
-    const { name, entry_url, pom_file, enabled } = input;
+    const { name, entry_url, pom_file, enabled, returning_user, interactions } = input;
 
     // Validate name
     if (!this.isString(name) || name.trim().length === 0) {
@@ -101,13 +114,9 @@ export class ProductConfigValidator extends BaseValidator<ProductConfig> {
       errors.push('Entry URL must be a valid URL');
     }
 
-    // Validate pom_file - allow .ts files (development) or no extension (production)
+    // Validate pom_file - a registered or built-in POM name, a file path, a package or a scenario file; resolved by the POM registry
     if (!this.isString(pom_file) || pom_file.trim() === '') {
       errors.push('POM file must be a non-empty string');
-    } else if (!pom_file.endsWith('.ts') && pom_file.includes('.')) {
-      errors.push(
-        'POM file must either be a TypeScript file (.ts extension) or a module name without extension'
-      );
     }
 
     // Validate enabled
@@ -115,6 +124,36 @@ export class ProductConfigValidator extends BaseValidator<ProductConfig> {
       errors.push('Enabled flag must be a boolean');
     }
 
+    // Validate optional returning user credentials
+    if (returning_user !== undefined) {
+      if (!this.isObject(returning_user)) {
+        errors.push('returning_user must be an object');
+      } else {
+        if (!this.isString(returning_user.contact_number) || returning_user.contact_number === '') {
+          errors.push('returning_user.contact_number must be a non-empty string');
+        }
+        if (returning_user.otp !== undefined && !this.isString(returning_user.otp)) {
+          errors.push('returning_user.otp must be a string');
+        }
+      }
+    }
+
+    // Validate optional post-load interactions
+    if (interactions !== undefined) {
+      const validInteractions = Object.keys(INTERACTION_METRICS);
+      if (!this.isArray(interactions)) {
+        errors.push('interactions must be an array');
+      } else {
+        for (const interaction of interactions) {
+          if (!this.isString(interaction) || !validInteractions.includes(interaction)) {
+            errors.push(
+              `Invalid interaction ${interaction}. Valid options: ${validInteractions.join(', ')}`
+            );
+          }
+        }
+      }
+    }
+
     if (errors.length > 0) {
       return this.createResult(false, undefined, errors);
     }
@@ -134,13 +173,69 @@ export class NetworkConfigValidator extends BaseValidator<NetworkConfig> {
       return this.createResult(false, undefined, ['Network config must be an object']);
     }
 
-    const { latency, enabled } = input;
+    const {
+      download_throughput,
+      upload_throughput,
+      latency,
+      connection_type,
+      enabled,
+      packet_loss,
+      jitter,
+      trace,
+    } = input;
+
+    // Validate throughput (-1 disables throttling)
+    if (!this.isNumber(download_throughput) || download_throughput < -1) {
+      errors.push('Download throughput must be a number >= -1 (-1 disables throttling)');
+    }
+
+    if (!this.isNumber(upload_throughput) || upload_throughput < -1) {
+      errors.push('Upload throughput must be a number >= -1 (-1 disables throttling)');
+    }
 
     // Validate latency
     if (!this.isNonNegativeNumber(latency)) {
       errors.push('Latency must be a non-negative number');
     }
 
+    // Validate connection type
+    const validConnectionTypes = ['cellular3g', 'cellular4g', 'wifi'];
+    if (!validConnectionTypes.includes(connection_type as string)) {
+      errors.push(`Connection type must be one of: ${validConnectionTypes.join(', ')}`);
+    }
+
+    // Validate packet loss and jitter
+    if (
+      packet_loss !== undefined &&
+      (!this.isNonNegativeNumber(packet_loss) || packet_loss >= 100)
+    ) {
+      errors.push('Packet loss must be a percentage >= 0 and < 100');
+    }
+
+    if (jitter !== undefined && !this.isNonNegativeNumber(jitter)) {
+      errors.push('Jitter must be a non-negative number');
+    }
+
+    // Validate bandwidth trace
+    if (trace !== undefined) {
+      if (!this.isObject(trace)) {
+        errors.push('Trace config must be an object');
+      } else {
+        const { downlink_file, uplink_file } = trace;
+
+        if (!this.isString(downlink_file) || downlink_file.trim() === '') {
+          errors.push('Trace downlink_file must be a non-empty string');
+        }
+
+        if (
+          uplink_file !== undefined &&
+          (!this.isString(uplink_file) || uplink_file.trim() === '')
+        ) {
+          errors.push('Trace uplink_file must be a non-empty string');
+        }
+      }
+    }
+
     // Validate enabled
     if (!this.isBoolean(enabled)) {
       errors.push('Enabled flag must be a boolean');
@@ -196,7 +291,7 @@ export class UserStateConfigValidator extends BaseValidator<UserStateConfig> {
       return this.createResult(false, undefined, ['User state config must be an object']);
     }
 
-    const { is_logged_in, enabled } = input;
+    const { is_logged_in, enabled, storage_state_file } = input;
 
     // Validate is_logged_in
     if (!this.isBoolean(is_logged_in)) {
@@ -208,6 +303,15 @@ export class UserStateConfigValidator extends BaseValidator<UserStateConfig> {
       errors.push('Enabled flag must be a boolean');
     }
 
+    // Validate storage_state_file
+    if (storage_state_file !== undefined) {
+      if (!this.isString(storage_state_file) || storage_state_file.trim() === '') {
+        errors.push('storage_state_file must be a non-empty string');
+      } else if (!is_logged_in) {
+        errors.push('storage_state_file is only supported for logged-in user states');
+      }
+    }
+
     if (errors.length > 0) {
       return this.createResult(false, undefined, errors);
     }
@@ -216,6 +320,206 @@ export class UserStateConfigValidator extends BaseValidator<UserStateConfig> {
   }
 }
 
+/**
+ * Cache state configuration validator
+ */
+export class CacheStateConfigValidator extends BaseValidator<CacheStateConfig> {
+  validate(input: unknown): ValidationResult<CacheStateConfig> {
+    const errors: string[] = [];
+
+    if (!this.isObject(input)) {
+      return this.createResult(false, undefined, ['Cache state config must be an object']);
+    }
+
+    const { mode, enabled } = input;
+    const validModes = ['cold', 'warm', 'repeat_view'];
+
+    // Validate mode
+    if (!validModes.includes(mode as string)) {
+      errors.push(`Invalid cache state mode: ${mode}. Valid options: ${validModes.join(', ')}`);
+    }
+
+    // Validate enabled
+    if (!this.isBoolean(enabled)) {
+      errors.push('Enabled flag must be a boolean');
+    }
+
+    if (errors.length > 0) {
+      return this.createResult(false, undefined, errors);
+    }
+
+    return this.createResult(true, input as CacheStateConfig);
+  }
+}
+
+/**
+ * Device profile validator
+ */
+export class DeviceConfigValidator extends BaseValidator<DeviceConfig> {
+  validate(input: unknown): ValidationResult<DeviceConfig> {
+    const errors: string[] = [];
+
+    if (!this.isObject(input)) {
+      return this.createResult(false, undefined, ['Device config must be an object']);
+    }
+
+    const { descriptor, viewport, device_scale_factor, user_agent, is_mobile, has_touch, enabled } =
+      input;
+
+    // Validate descriptor
+    if (descriptor !== undefined && !(this.isString(descriptor) && descriptor in devices)) {
+      errors.push(`Unknown Playwright device descriptor: ${descriptor}`);
+    }
+
+    // Validate viewport, required for custom devices
+    if (viewport === undefined) {
+      if (descriptor === undefined) {
+        errors.push('Viewport is required when no descriptor is set');
+      }
+    } else if (!this.isObject(viewport)) {
+      errors.push('Viewport config must be an object');
+    } else {
+      const { width, height } = viewport;
+
+      if (!this.isPositiveNumber(width) || width < 320) {
+        errors.push('Viewport width must be a positive number >= 320');
+      }
+
+      if (!this.isPositiveNumber(height) || height < 240) {
+        errors.push('Viewport height must be a positive number >= 240');
+      }
+    }
+
+    // Validate device_scale_factor
+    if (device_scale_factor !== undefined && !this.isPositiveNumber(device_scale_factor)) {
+      errors.push('device_scale_factor must be a positive number');
+    }
+
+    // Validate user_agent
+    if (user_agent !== undefined && (!this.isString(user_agent) || user_agent.trim() === '')) {
+      errors.push('user_agent must be a non-empty string');
+    }
+
+    // Validate is_mobile and has_touch
+    if (is_mobile !== undefined && !this.isBoolean(is_mobile)) {
+      errors.push('is_mobile must be a boolean');
+    }
+
+    if (has_touch !== undefined && !this.isBoolean(has_touch)) {
+      errors.push('has_touch must be a boolean');
+    }
+
+    // Validate enabled
+    if (!this.isBoolean(enabled)) {
+      errors.push('Enabled flag must be a boolean');
+    }
+
+    if (errors.length > 0) {
+      return this.createResult(false, undefined, errors);
+    }
+
+    return this.createResult(true, input as DeviceConfig);
+  }
+}
+
+/**
+ * User agent matrix entry validator
+ */
+export class UserAgentConfigValidator extends BaseValidator<UserAgentConfig> {
+  validate(input: unknown): ValidationResult<UserAgentConfig> {
+    const errors: string[] = [];
+
+    if (!this.isObject(input)) {
+      return this.createResult(false, undefined, ['User agent config must be an object']);
+    }
+
+    const { value, enabled } = input;
+
+    // Validate value
+    if (value !== undefined && (!this.isString(value) || value.trim() === '')) {
+      errors.push('Value must be a non-empty string');
+    }
+
+    // Validate enabled
+    if (!this.isBoolean(enabled)) {
+      errors.push('Enabled flag must be a boolean');
+    }
+
+    if (errors.length > 0) {
+      return this.createResult(false, undefined, errors);
+    }
+
+    return this.createResult(true, input as UserAgentConfig);
+  }
+}
+
+/**
+ * Fault injection matrix entry validator
+ */
+export class FaultConfigValidator extends BaseValidator<FaultConfig> {
+  validate(input: unknown): ValidationResult<FaultConfig> {
+    const errors: string[] = [];
+
+    if (!this.isObject(input)) {
+      return this.createResult(false, undefined, ['Fault config must be an object']);
+    }
+
+    const { rules, enabled } = input;
+
+    // Validate rules
+    if (!this.isArray(rules)) {
+      errors.push('Rules must be an array');
+    } else {
+      const validActions = ['abort', 'delay', 'status'];
+
+      rules.forEach((rule, index) => {
+        if (!this.isObject(rule)) {
+          errors.push(`Rule ${index + 1} must be an object`);
+          return;
+        }
+
+        const { url_pattern, action, delay_ms, status, probability } = rule;
+
+        if (!this.isString(url_pattern) || url_pattern.trim() === '') {
+          errors.push(`Rule ${index + 1}: url_pattern must be a non-empty string`);
+        }
+
+        if (!validActions.includes(action as string)) {
+          errors.push(
+            `Rule ${index + 1}: invalid action ${action}. Valid options: ${validActions.join(', ')}`
+          );
+        }
+
+        if (action === 'delay' && !this.isPositiveNumber(delay_ms)) {
+          errors.push(`Rule ${index + 1}: delay_ms must be a positive number for delay rules`);
+        }
+
+        if (
+          action === 'status' &&
+          !(Number.isInteger(status) && (status as number) >= 100 && (status as number) <= 599)
+        ) {
+          errors.push(`Rule ${index + 1}: status must be an HTTP status code for status rules`);
+        }
+
+        if (probability !== undefined && (!this.isPositiveNumber(probability) || probability > 1)) {
+          errors.push(`Rule ${index + 1}: probability must be > 0 and <= 1`);
+        }
+      });
+    }
+
+    // Validate enabled
+    if (!this.isBoolean(enabled)) {
+      errors.push('Enabled flag must be a boolean');
+    }
+
+    if (errors.length > 0) {
+      return this.createResult(false, undefined, errors);
+    }
+
+    return this.createResult(true, input as FaultConfig);
+  }
+}
+
 /**
  * Execution configuration validator
  */
@@ -227,7 +531,18 @@ export class ExecutionConfigValidator extends BaseValidator<ExecutionConfig> {
       return this.createResult(false, undefined, ['Execution config must be an object']);
     }
 
-    const { iterations, timeout, headless, browsers, viewport, retry } = input;
+    const {
+      iterations,
+      timeout,
+      headless,
+      browsers,
+      concurrency,
+      retry,
+      failure_policy,
+      scheduling,
+      adaptive,
+      user_agent,
+    } = input;
 
     // Validate iterations
     if (!this.isPositiveNumber(iterations) || iterations < 1) {
@@ -257,19 +572,9 @@ export class ExecutionConfigValidator extends BaseValidator<ExecutionConfig> {
       }
     }
 
-    // Validate viewport config
-    if (!this.isObject(viewport)) {
-      errors.push('Viewport config must be an object');
-    } else {
-      const { width, height } = viewport;
-
-      if (!this.isPositiveNumber(width) || width < 320) {
-        errors.push('Viewport width must be a positive number >= 320');
-      }
-
-      if (!this.isPositiveNumber(height) || height < 240) {
-        errors.push('Viewport height must be a positive number >= 240');
-      }
+    // Validate concurrency
+    if (!this.isPositiveNumber(concurrency) || !Number.isInteger(concurrency)) {
+      errors.push('Concurrency must be a positive integer');
     }
 
     // Validate retry config
@@ -287,6 +592,118 @@ export class ExecutionConfigValidator extends BaseValidator<ExecutionConfig> {
       }
     }
 
+    // Validate failure policy
+    if (!this.isObject(failure_policy)) {
+      errors.push('Failure policy must be an object');
+    } else {
+      const { mode, max_failure_percentage } = failure_policy;
+      const validModes = ['abort', 'skip', 'budget'];
+
+      if (!validModes.includes(mode as string)) {
+        errors.push(
+          `Invalid failure policy mode: ${mode}. Valid options: ${validModes.join(', ')}`
+        );
+      }
+
+      if (!this.isNonNegativeNumber(max_failure_percentage) || max_failure_percentage > 100) {
+        errors.push('Max failure percentage must be a number between 0 and 100');
+      }
+    }
+
+    // Validate scheduling
+    if (!this.isObject(scheduling)) {
+      errors.push('Scheduling config must be an object');
+    } else {
+      const { mode, order, seed, interleave_contexts } = scheduling;
+      const validModes = ['sequential', 'interleaved'];
+      const validOrders = ['round_robin', 'random'];
+
+      if (!validModes.includes(mode as string)) {
+        errors.push(`Invalid scheduling mode: ${mode}. Valid options: ${validModes.join(', ')}`);
+      }
+
+      if (!validOrders.includes(order as string)) {
+        errors.push(`Invalid scheduling order: ${order}. Valid options: ${validOrders.join(', ')}`);
+      }
+
+      if (!Number.isInteger(seed)) {
+        errors.push('Scheduling seed must be an integer');
+      }
+
+      if (!this.isBoolean(interleave_contexts)) {
+        errors.push('Interleave contexts flag must be a boolean');
+      }
+    }
+
+    // Validate adaptive iterations
+    if (!this.isObject(adaptive)) {
+      errors.push('Adaptive iterations config must be an object');
+    } else {
+      const {
+        enabled,
+        metric,
+        min_iterations,
+        max_iterations,
+        target_relative_width,
+        confidence_level,
+      } = adaptive;
+      const validMetrics = Object.keys(METRICS.initial_load);
+      const validConfidenceLevels = Object.keys(CONFIDENCE_LEVEL_Z).map(Number);
+
+      if (!this.isBoolean(enabled)) {
+        errors.push('Adaptive iterations enabled flag must be a boolean');
+      }
+
+      if (!validMetrics.includes(metric as string)) {
+        errors.push(
+          `Invalid adaptive metric: ${metric}. Valid options: ${validMetrics.join(', ')}`
+        );
+      }
+
+      if (!Number.isInteger(min_iterations) || (min_iterations as number) < 3) {
+        errors.push('Adaptive min iterations must be an integer >= 3');
+      }
+
+      if (
+        !Number.isInteger(max_iterations) ||
+        (max_iterations as number) < (min_iterations as number)
+      ) {
+        errors.push('Adaptive max iterations must be an integer >= min iterations');
+      }
+
+      if (!this.isPositiveNumber(target_relative_width)) {
+        errors.push('Adaptive target relative width must be a positive number');
+      }
+
+      if (!validConfidenceLevels.includes(confidence_level as number)) {
+        errors.push(
+          `Invalid confidence level: ${confidence_level}. Valid options: ${validConfidenceLevels.join(', ')}`
+        );
+      }
+    }
+
+    // Validate user agent selection
+    if (!this.isObject(user_agent)) {
+      errors.push('User agent config must be an object');
+    } else {
+      const { mode, seed, value } = user_agent;
+      const validModes = ['random', 'seeded', 'fixed'];
+
+      if (!validModes.includes(mode as string)) {
+        errors.push(`Invalid user agent mode: ${mode}. Valid options: ${validModes.join(', ')}`);
+      }
+
+      if (!Number.isInteger(seed)) {
+        errors.push('User agent seed must be an integer');
+      }
+
+      if (value !== undefined && (!this.isString(value) || value.trim() === '')) {
+        errors.push('User agent value must be a non-empty string');
+      } else if (mode === 'fixed' && value === undefined) {
+        errors.push('User agent value is required in fixed mode');
+      }
+    }
+
     if (errors.length > 0) {
       return this.createResult(false, undefined, errors);
     }
@@ -295,6 +712,143 @@ export class ExecutionConfigValidator extends BaseValidator<ExecutionConfig> {
   }
 }
 
+/**
+ * Checkpoint configuration validator
+ */
+export class CheckpointConfigValidator extends BaseValidator<CheckpointConfig> {
+  validate(input: unknown): ValidationResult<CheckpointConfig> {
+    const errors: string[] = [];
+
+    if (!this.isObject(input)) {
+      return this.createResult(false, undefined, ['Checkpoint config must be an object']);
+    }
+
+    const { enabled, file, resume } = input;
+
+    if (!this.isBoolean(enabled)) {
+      errors.push('Enabled flag must be a boolean');
+    }
+
+    if (!this.isString(file) || file.trim().length === 0) {
+      errors.push('Checkpoint file must be a non-empty string');
+    }
+
+    if (!this.isBoolean(resume)) {
+      errors.push('Resume flag must be a boolean');
+    } else if (resume && enabled === false) {
+      errors.push('Resume requires checkpoints to be enabled');
+    }
+
+    if (errors.length > 0) {
+      return this.createResult(false, undefined, errors);
+    }
+
+    return this.createResult(true, input as CheckpointConfig);
+  }
+}
+
+/**
+ * HAR record/replay configuration validator
+ */
+export class HarConfigValidator extends BaseValidator<HarConfig> {
+  validate(input: unknown): ValidationResult<HarConfig> {
+    const errors: string[] = [];
+
+    if (!this.isObject(input)) {
+      return this.createResult(false, undefined, ['HAR config must be an object']);
+    }
+
+    const { mode, directory, think_time_ms } = input;
+    const validModes = ['off', 'record', 'replay'];
+
+    if (!validModes.includes(mode as string)) {
+      errors.push(`Invalid HAR mode: ${mode}. Valid options: ${validModes.join(', ')}`);
+    }
+
+    if (!this.isString(directory) || directory.trim().length === 0) {
+      errors.push('HAR directory must be a non-empty string');
+    }
+
+    if (!this.isNonNegativeNumber(think_time_ms)) {
+      errors.push('Think time must be a non-negative number');
+    }
+
+    if (errors.length > 0) {
+      return this.createResult(false, undefined, errors);
+    }
+
+    return this.createResult(true, input as HarConfig);
+  }
+}
+
+/**
+ * Chrome tracing configuration validator
+ */
+export class TracingConfigValidator extends BaseValidator<TracingConfig> {
+  validate(input: unknown): ValidationResult<TracingConfig> {
+    const errors: string[] = [];
+
+    if (!this.isObject(input)) {
+      return this.createResult(false, undefined, ['Tracing config must be an object']);
+    }
+
+    const { enabled, sample_every } = input;
+
+    if (!this.isBoolean(enabled)) {
+      errors.push('Enabled must be a boolean');
+    }
+
+    if (!Number.isInteger(sample_every) || (sample_every as number) < 1) {
+      errors.push('Sample every must be a positive integer');
+    }
+
+    if (errors.length > 0) {
+      return this.createResult(false, undefined, errors);
+    }
+
+    return this.createResult(true, input as TracingConfig);
+  }
+}
+
+/**
+ * Scheduler mode configuration validator
+ */
+export class DaemonConfigValidator extends BaseValidator<DaemonConfig> {
+  validate(input: unknown): ValidationResult<DaemonConfig> {
+    const errors: string[] = [];
+
+    if (!this.isObject(input)) {
+      return this.createResult(false, undefined, ['Daemon config must be an object']);
+    }
+
+    const { schedule, spread_minutes, keep_runs } = input;
+
+    if (!this.isString(schedule)) {
+      errors.push('Schedule must be a cron expression');
+    } else {
+      try {
+        getNextCronTime(parseCronExpression(schedule), new Date());
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    if (!this.isNonNegativeNumber(spread_minutes)) {
+      errors.push('Spread must be a non-negative number of minutes');
+    }
+
+    if (!this.isPositiveNumber(keep_runs) || !Number.isInteger(keep_runs)) {
+      errors.push('Kept runs must be a positive integer');
+    }
+
+    if (errors.length > 0) {
+      return this.createResult(false, undefined, errors);
+    }
+
+    return this.createResult(true, input as DaemonConfig);
+  }
+}
+
 /**
  * Main configuration validator
  */
@@ -303,7 +857,15 @@ export class ConfigValidator extends BaseValidator<Config> {
   private networkValidator = new NetworkConfigValidator();
   private cpuValidator = new CPUConfigValidator();
   private userStateValidator = new UserStateConfigValidator();
+  private cacheStateValidator = new CacheStateConfigValidator();
+  private deviceValidator = new DeviceConfigValidator();
+  private userAgentValidator = new UserAgentConfigValidator();
+  private faultValidator = new FaultConfigValidator();
   private executionValidator = new ExecutionConfigValidator();
+  private checkpointValidator = new CheckpointConfigValidator();
+  private harValidator = new HarConfigValidator();
+  private tracingValidator = new TracingConfigValidator();
+  private daemonValidator = new DaemonConfigValidator();
 
   validate(input: unknown): ValidationResult<Config> {
     const errors: string[] = [];
@@ -312,7 +874,17 @@ export class ConfigValidator extends BaseValidator<Config> {
       return this.createResult(false, undefined, ['Config must be an object']);
     }
 
-    const { products, execution_matrix, execution, output } = input;
+    const {
+      products,
+      pom_plugins,
+      execution_matrix,
+      execution,
+      output,
+      checkpoint,
+      har,
+      tracing,
+      daemon,
+    } = input;
 
     // Validate products
     if (!this.isArray(products) || products.length === 0) {
@@ -326,11 +898,19 @@ export class ConfigValidator extends BaseValidator<Config> {
       });
     }
 
+    // Validate POM plugins; they are loaded and checked by the POM registry
+    if (
+      !this.isArray(pom_plugins) ||
+      pom_plugins.some((plugin) => !this.isString(plugin) || plugin.trim().length === 0)
+    ) {
+      errors.push('POM plugins must be an array of module paths or package names');
+    }
+
     // Validate execution matrix
     if (!this.isObject(execution_matrix)) {
       errors.push('Execution matrix must be an object');
     } else {
-      const { network, cpu, user_state } = execution_matrix;
+      const { network, cpu, user_state, cache_state, device, user_agent, fault } = execution_matrix;
 
       // Validate network configs
       if (!this.isObject(network)) {
@@ -367,6 +947,54 @@ export class ConfigValidator extends BaseValidator<Config> {
           }
         });
       }
+
+      // Validate cache state configs
+      if (!this.isObject(cache_state)) {
+        errors.push('Cache state configs must be an object');
+      } else {
+        Object.entries(cache_state).forEach(([key, config]) => {
+          const result = this.cacheStateValidator.validate(config);
+          if (!result.isValid) {
+            errors.push(...result.errors.map((err) => `Cache state config '${key}': ${err}`));
+          }
+        });
+      }
+
+      // Validate device configs
+      if (!this.isObject(device)) {
+        errors.push('Device configs must be an object');
+      } else {
+        Object.entries(device).forEach(([key, config]) => {
+          const result = this.deviceValidator.validate(config);
+          if (!result.isValid) {
+            errors.push(...result.errors.map((err) => `Device config '${key}': ${err}`));
+          }
+        });
+      }
+
+      // Validate user agent configs
+      if (!this.isObject(user_agent)) {
+        errors.push('User agent configs must be an object');
+      } else {
+        Object.entries(user_agent).forEach(([key, config]) => {
+          const result = this.userAgentValidator.validate(config);
+          if (!result.isValid) {
+            errors.push(...result.errors.map((err) => `User agent config '${key}': ${err}`));
+          }
+        });
+      }
+
+      // Validate fault configs
+      if (!this.isObject(fault)) {
+        errors.push('Fault configs must be an object');
+      } else {
+        Object.entries(fault).forEach(([key, config]) => {
+          const result = this.faultValidator.validate(config);
+          if (!result.isValid) {
+            errors.push(...result.errors.map((err) => `Fault config '${key}': ${err}`));
+          }
+        });
+      }
     }
 
     // Validate execution config
@@ -375,11 +1003,35 @@ export class ConfigValidator extends BaseValidator<Config> {
       errors.push(...executionResult.errors.map((err) => `Execution config: ${err}`));
     }
 
+    // Validate checkpoint config
+    const checkpointResult = this.checkpointValidator.validate(checkpoint);
+    if (!checkpointResult.isValid) {
+      errors.push(...checkpointResult.errors.map((err) => `Checkpoint config: ${err}`));
+    }
+
+    // Validate HAR config
+    const harResult = this.harValidator.validate(har);
+    if (!harResult.isValid) {
+      errors.push(...harResult.errors.map((err) => `HAR config: ${err}`));
+    }
+
+    // Validate tracing config
+    const tracingResult = this.tracingValidator.validate(tracing);
+    if (!tracingResult.isValid) {
+      errors.push(...tracingResult.errors.map((err) => `Tracing config: ${err}`));
+    }
+
+    // Validate daemon config
+    const daemonResult = this.daemonValidator.validate(daemon);
+    if (!daemonResult.isValid) {
+      errors.push(...daemonResult.errors.map((err) => `Daemon config: ${err}`));
+    }
+
     // Validate output config
     if (!this.isObject(output)) {
       errors.push('Output config must be an object');
     } else {
-      const { formats, directory } = output;
+      const { formats, directory, run_id } = output;
 
       if (!this.isArray(formats) || formats.length === 0) {
         errors.push('Output formats must be a non-empty array');
@@ -396,6 +1048,10 @@ export class ConfigValidator extends BaseValidator<Config> {
       if (!this.isString(directory) || directory.trim().length === 0) {
         errors.push('Output directory must be a non-empty string');
       }
+
+      if (run_id !== undefined && (!this.isString(run_id) || run_id.trim().length === 0)) {
+        errors.push('Run ID must be a non-empty string');
+      }
     }
 
     if (errors.length > 0) {
@@ -406,6 +1062,205 @@ export class ConfigValidator extends BaseValidator<Config> {
   }
 }
 
+/**
+ * Checkout scenario validator
+ */
+export class ScenarioValidator extends BaseValidator<CheckoutScenario> {
+  validate(input: unknown): ValidationResult<CheckoutScenario> {
+    const errors: string[] = [];
+
+    if (!this.isObject(input)) {
+      return this.createResult(false, undefined, ['Scenario must be an object']);
+    }
+
+    const { steps, click, milestones, network_filter, seed_user_state, interactions } = input;
+
+    // Validate steps
+    if (!this.isArray(steps)) {
+      errors.push('Steps must be an array');
+    } else {
+      steps.forEach((step, index) => this.validateStep(step, `Step ${index + 1}`, errors));
+    }
+
+    // Validate click target
+    this.validateLocator(click, 'Click target', errors, true);
+
+    // Validate milestones
+    if (!this.isObject(milestones)) {
+      errors.push('Milestones must be an object with popup and content');
+    } else {
+      this.validateLocator(milestones.popup, 'Popup milestone', errors, false);
+      this.validateLocator(milestones.content, 'Content milestone', errors, true);
+    }
+
+    // Validate network filter
+    if (network_filter !== undefined) {
+      if (!this.isObject(network_filter)) {
+        errors.push('Network filter must be an object');
+      } else {
+        for (const key of ['include', 'exclude'] as const) {
+          const patterns = network_filter[key];
+          if (patterns === undefined) continue;
+          if (!this.isArray(patterns) || patterns.some((p) => !this.isValidRegExp(p))) {
+            errors.push(`Network filter ${key} must be an array of regular expressions`);
+          }
+        }
+      }
+    }
+
+    // Validate seeding steps
+    if (seed_user_state !== undefined) {
+      if (!this.isArray(seed_user_state)) {
+        errors.push('Seed user state must be an array of steps');
+      } else {
+        seed_user_state.forEach((step, index) =>
+          this.validateStep(step, `Seed user state step ${index + 1}`, errors)
+        );
+      }
+    }
+
+    // Validate post-load interactions
+    if (interactions !== undefined) {
+      if (!this.isObject(interactions)) {
+        errors.push('Interactions must be an object of steps per interaction');
+      } else {
+        const validInteractions = Object.keys(INTERACTION_METRICS);
+        for (const [interaction, interactionSteps] of Object.entries(interactions)) {
+          if (!validInteractions.includes(interaction)) {
+            errors.push(
+              `Invalid interaction ${interaction}. Valid options: ${validInteractions.join(', ')}`
+            );
+          } else if (!this.isArray(interactionSteps) || interactionSteps.length === 0) {
+            errors.push(`Interaction ${interaction} must be a non-empty array of steps`);
+          } else {
+            interactionSteps.forEach((step, index) =>
+              this.validateStep(step, `Interaction ${interaction} step ${index + 1}`, errors)
+            );
+          }
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      return this.createResult(false, undefined, errors);
+    }
+
+    return this.createResult(true, input as CheckoutScenario);
+  }
+
+  private validateStep(step: unknown, label: string, errors: string[]): void {
+    if (!this.isObject(step)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    const { action, target, url, value, duration_ms, state, optional } = step;
+    const validActions = [
+      'goto',
+      'click',
+      'fill',
+      'type',
+      'wait_for',
+      'wait',
+      'wait_for_load_state',
+    ];
+    const validStates = ['load', 'domcontentloaded', 'networkidle'];
+
+    if (!validActions.includes(action as string)) {
+      errors.push(`${label}: invalid action ${action}. Valid options: ${validActions.join(', ')}`);
+      return;
+    }
+
+    if (action === 'click' || action === 'fill' || action === 'type' || action === 'wait_for') {
+      this.validateLocator(target, `${label} target`, errors, true);
+    }
+
+    if (action === 'goto' && !this.isValidUrl(url)) {
+      errors.push(`${label}: goto needs a valid url`);
+    }
+
+    if ((action === 'fill' || action === 'type') && !this.isString(value)) {
+      errors.push(`${label}: ${action} needs a value`);
+    }
+
+    if (action === 'wait' && !this.isPositiveNumber(duration_ms)) {
+      errors.push(`${label}: duration_ms must be a positive number for wait steps`);
+    }
+
+    if (action === 'wait_for_load_state' && !validStates.includes(state as string)) {
+      errors.push(`${label}: invalid state ${state}. Valid options: ${validStates.join(', ')}`);
+    }
+
+    if (optional !== undefined && !this.isBoolean(optional)) {
+      errors.push(`${label}: optional must be a boolean`);
+    }
+  }
+
+  /**
+   * Locators need exactly one way of picking the element, unless they may stand for a frame
+   */
+  private validateLocator(
+    locator: unknown,
+    label: string,
+    errors: string[],
+    requireElement: boolean
+  ): void {
+    if (!this.isObject(locator)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    const { frames, name, exact, nth } = locator;
+
+    if (
+      frames !== undefined &&
+      (!this.isArray(frames) || frames.some((f) => !this.isString(f) || f.trim().length === 0))
+    ) {
+      errors.push(`${label}: frames must be an array of iframe selectors`);
+    }
+
+    const pickers = (['selector', 'role', 'text', 'test_id'] as const).filter(
+      (key) => locator[key] !== undefined
+    );
+    if (pickers.some((key) => !this.isString(locator[key]) || locator[key].trim().length === 0)) {
+      errors.push(`${label}: ${pickers.join(', ')} must be non-empty strings`);
+    }
+    if (pickers.length > 1) {
+      errors.push(`${label}: use only one of selector, role, text or test_id`);
+    } else if (pickers.length === 0 && (requireElement || !this.isArray(frames))) {
+      errors.push(
+        requireElement
+          ? `${label} needs a selector, role, text or test_id`
+          : `${label} needs frames or a selector, role, text or test_id`
+      );
+    }
+
+    if (name !== undefined && (!this.isString(name) || locator.role === undefined)) {
+      errors.push(`${label}: name must be a string and narrows a role`);
+    }
+
+    if (exact !== undefined && !this.isBoolean(exact)) {
+      errors.push(`${label}: exact must be a boolean`);
+    }
+
+    if (nth !== undefined && !(Number.isInteger(nth) && (nth as number) >= 0)) {
+      errors.push(`${label}: nth must be a non-negative integer`);
+    }
+  }
+
+  private isValidRegExp(value: unknown): value is string {
+    if (!this.isString(value)) {
+      return false;
+    }
+    try {
+      new RegExp(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
 /**
  * Utility functions for common validations
  */
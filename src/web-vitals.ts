@@ -0,0 +1,123 @@
+import { ElementHandle, Frame, Page } from 'playwright';
+import { WebVitalsSnapshot } from './types/metrics';
+import { getTimelineOffset, installFrameObserver, readFrameState } from './frame-observers';
+
+/**
+ * The web vitals a frame observed, on its own performance timeline
+ */
+type ObservedWebVitals = WebVitalsSnapshot & { time_origin: number };
+
+type LayoutShiftEntry = PerformanceEntry & { value: number; hadRecentInput: boolean };
+type EventTimingEntry = PerformanceEntry & { interactionId?: number };
+
+const WEB_VITALS_GLOBAL = '__benchmarkWebVitals';
+
+/**
+ * Init script observing paint, largest-contentful-paint, layout-shift, first-input and event-timing
+ * entries
+ */
+export function observeWebVitals(globalName: string): void {
+  const vitals: ObservedWebVitals = { time_origin: performance.timeOrigin };
+  (window as unknown as Record<string, unknown>)[globalName] = vitals;
+
+  const supported = PerformanceObserver.supportedEntryTypes ?? [];
+  const observe = (
+    type: string,
+    callback: (entries: PerformanceEntryList) => void,
+    options: Record<string, unknown> = {}
+  ) => {
+    if (!supported.includes(type)) return;
+    new PerformanceObserver((list) => callback(list.getEntries())).observe(
+      Object.assign({ type, buffered: true }, options)
+    );
+  };
+
+  observe('paint', (entries) => {
+    for (const entry of entries) {
+      if (entry.name === 'first-contentful-paint') vitals.fcp = entry.startTime;
+    }
+  });
+
+  observe('largest-contentful-paint', (entries) => {
+    const latest = entries[entries.length - 1];
+    if (latest) vitals.lcp = latest.startTime;
+  });
+
+  // CLS is the largest session window: shifts less than 1s apart, spanning at most 5s
+  if (supported.includes('layout-shift')) vitals.cls = 0;
+  let sessionValue = 0;
+  let sessionStart = 0;
+  let lastShift = 0;
+  observe('layout-shift', (entries) => {
+    for (const entry of entries as LayoutShiftEntry[]) {
+      if (entry.hadRecentInput) continue;
+      if (
+        sessionValue > 0 &&
+        entry.startTime - lastShift < 1000 &&
+        entry.startTime - sessionStart < 5000
+      ) {
+        sessionValue += entry.value;
+      } else {
+        sessionValue = entry.value;
+        sessionStart = entry.startTime;
+      }
+      lastShift = entry.startTime;
+      vitals.cls = Math.max(vitals.cls ?? 0, sessionValue);
+    }
+  });
+
+  // INP is the longest interaction; a benchmark has too few interactions for a percentile. The
+  // first input is always reported, so fast interactions still give an INP below the threshold.
+  observe('first-input', (entries) => {
+    for (const entry of entries) {
+      vitals.inp = Math.max(vitals.inp ?? 0, entry.duration);
+    }
+  });
+  observe(
+    'event',
+    (entries) => {
+      for (const entry of entries as EventTimingEntry[]) {
+        if (entry.interactionId) vitals.inp = Math.max(vitals.inp ?? 0, entry.duration);
+      }
+    },
+    { durationThreshold: 16 }
+  );
+}
+
+/**
+ * Install the web vitals observers for every frame the page loads
+ */
+export async function installWebVitalsObserver(page: Page): Promise<void> {
+  await installFrameObserver(page, observeWebVitals, WEB_VITALS_GLOBAL);
+}
+
+/**
+ * Read the web vitals of the frame at the end of an iframe selector chain (the page itself for an
+ * empty chain). Paint times are moved onto the page's timeline; null when the frame is gone.
+ */
+export async function readWebVitals(
+  page: Page,
+  frameChain: string[]
+): Promise<WebVitalsSnapshot | null> {
+  let frame: Frame | null = page.mainFrame();
+  for (const selector of frameChain) {
+    const element: ElementHandle | null = await frame.$(selector);
+    frame = element ? await element.contentFrame() : null;
+    if (!frame) {
+      return null;
+    }
+  }
+
+  const observed = await readFrameState<ObservedWebVitals>(frame, WEB_VITALS_GLOBAL);
+  if (!observed) {
+    return null;
+  }
+
+  const offset = await getTimelineOffset(page, observed.time_origin);
+  return {
+    fcp: observed.fcp !== undefined ? observed.fcp + offset : undefined,
+    lcp: observed.lcp !== undefined ? observed.lcp + offset : undefined,
+    cls: observed.cls,
+    inp: observed.inp,
+  };
+}
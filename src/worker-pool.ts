@@ -0,0 +1,147 @@
+import os from 'os';
+import { Config, ProductConfig } from './types/config';
+import { ExecutionContext } from './types/metrics';
+import { BenchmarkWorker } from './worker';
+import { CheckpointManager } from './checkpoint';
+import { createLogger } from './utils';
+
+/**
+ * Logical CPU cores budgeted per worker (browser, renderer and GPU processes)
+ */
+const CORES_PER_WORKER = 2;
+
+/**
+ * Cap the requested concurrency by the host's cores so parallel browsers don't starve each other
+ */
+export function resolveConcurrency(requested: number, cpuCount: number = os.cpus().length): number {
+  return Math.max(1, Math.min(requested, Math.floor(cpuCount / CORES_PER_WORKER)));
+}
+
+/**
+ * CPU-throttled combinations scale the host CPU, so any other load on the machine skews them
+ */
+export function isCpuThrottled(config: Config, combination: ExecutionContext): boolean {
+  return config.execution_matrix.cpu[combination.cpu].rate > 1;
+}
+
+/**
+ * Schedules execution combinations across isolated benchmark workers.
+ *
+ * Unthrottled combinations share a queue drained by up to `execution.concurrency` workers.
+ * CPU-throttled combinations then run one at a time with no other worker active, so
+ * concurrency never corrupts their measurements.
+ */
+export class WorkerPool {
+  private product: ProductConfig;
+  private config: Config;
+  private workers: BenchmarkWorker[] = [];
+  private storageStates = new Map<string, Promise<string>>();
+  private checkpoint: CheckpointManager;
+  private poolLogger: ReturnType<typeof createLogger>;
+  private completedCount: number = 0;
+
+  constructor(product: ProductConfig, config: Config, checkpoint: CheckpointManager) {
+    this.product = product;
+    this.config = config;
+    this.checkpoint = checkpoint;
+    this.poolLogger = createLogger(`WorkerPool:${product.name}`);
+  }
+
+  /**
+   * Run all combinations, stopping at the first failed combination
+   */
+  public async run(combinations: ExecutionContext[]): Promise<void> {
+    const concurrency = resolveConcurrency(this.config.execution.concurrency);
+    if (concurrency < this.config.execution.concurrency) {
+      this.poolLogger.warn(
+        `Concurrency capped at ${concurrency} (requested ${this.config.execution.concurrency}) to avoid CPU contention`,
+        { cpuCount: os.cpus().length, coresPerWorker: CORES_PER_WORKER }
+      );
+    }
+
+    const shared = combinations.filter((c) => !isCpuThrottled(this.config, c));
+    const exclusive = combinations.filter((c) => isCpuThrottled(this.config, c));
+
+    this.poolLogger.info('Scheduling combinations', {
+      concurrency,
+      parallelCombinations: shared.length,
+      exclusiveCombinations: exclusive.length,
+    });
+
+    this.completedCount = 0;
+    await this.runQueue(shared, concurrency, combinations.length);
+    // CPU-throttled combinations run alone
+    await this.runQueue(exclusive, 1, combinations.length);
+  }
+
+  /**
+   * All workers created by this pool, for merging their results
+   */
+  public getWorkers(): BenchmarkWorker[] {
+    return this.workers;
+  }
+
+  /**
+   * Drain a queue of combinations with the given number of workers, then release their browsers
+   */
+  private async runQueue(
+    combinations: ExecutionContext[],
+    concurrency: number,
+    total: number
+  ): Promise<void> {
+    if (combinations.length === 0) {
+      return;
+    }
+
+    const queue = [...combinations];
+    let failure: unknown = null;
+
+    const drain = async (worker: BenchmarkWorker): Promise<void> => {
+      while (queue.length > 0 && !failure) {
+        const combination = queue.shift()!;
+        this.poolLogger.info(`Testing combination ${this.completedCount + 1}/${total}`, {
+          combination,
+          worker: worker.id,
+          progress: `${Math.round((this.completedCount / total) * 100)}%`,
+        });
+
+        try {
+          await worker.runCombination(combination);
+          this.completedCount++;
+        } catch (error) {
+          // Let in-flight combinations finish, but schedule nothing new
+          failure = failure ?? error;
+        }
+      }
+    };
+
+    const workers = this.acquireWorkers(Math.min(concurrency, combinations.length));
+    try {
+      await Promise.all(workers.map(drain));
+    } finally {
+      await Promise.all(workers.map((worker) => worker.cleanup()));
+    }
+
+    if (failure) {
+      throw failure;
+    }
+  }
+
+  /**
+   * Reuse existing workers and create new ones up to the requested count
+   */
+  private acquireWorkers(count: number): BenchmarkWorker[] {
+    while (this.workers.length < count) {
+      this.workers.push(
+        new BenchmarkWorker(
+          this.workers.length + 1,
+          this.product,
+          this.config,
+          this.storageStates,
+          this.checkpoint
+        )
+      );
+    }
+    return this.workers.slice(0, count);
+  }
+}
@@ -0,0 +1,1019 @@
+import fs from 'fs';
+import path from 'path';
+import { gzipSync } from 'zlib';
+import {
+  Browser,
+  BrowserContext,
+  BrowserContextOptions,
+  chromium,
+  firefox,
+  webkit,
+  Page,
+  devices,
+} from 'playwright';
+import { BrowserType, Config, NetworkConfig, ProductConfig, UserStateConfig } from './types/config';
+import { CheckoutMilestones, POM } from './types/pom';
+import { PerformanceMonitor } from './performance';
+import { NetworkMonitor } from './network-monitor';
+import { createThrottlingStrategy, ThrottlingStrategy } from './throttling';
+import { applyFaultProfile } from './fault-injection';
+import { claimHarRecording, getHarPath, replayFromHar } from './har';
+import { CheckpointManager } from './checkpoint';
+import { pomRegistry } from './pom-registry';
+import { installWebVitalsObserver } from './web-vitals';
+import { installLongTaskObserver } from './long-tasks';
+import { installLongAnimationFrameObserver } from './long-animation-frames';
+import { installInteractionObserver } from './interactions';
+import { TRACE_CATEGORIES } from './tracing';
+import { PERFORMANCE_MARKERS, SUBMITTING_INTERACTIONS } from './constants/performance';
+import { ExecutionContext, FailedIteration, InjectedFault } from './types/metrics';
+import {
+  BrowserError,
+  calculateConfidenceInterval,
+  ConfigurationError,
+  createLogger,
+  delay,
+  generateIterationDelay,
+  exponentialBackoffRetry,
+  getContextKey,
+  getRandomUserAgent,
+  getSeededUserAgent,
+  sanitizeFilename,
+} from './utils';
+
+const BROWSER_ENGINES = { chromium, firefox, webkit };
+
+/**
+ * Network conditions that leave the network alone, for pages whose responses are replayed
+ */
+const UNTHROTTLED_NETWORK: NetworkConfig = {
+  download_throughput: -1,
+  upload_throughput: -1,
+  latency: 0,
+  connection_type: 'wifi',
+  enabled: true,
+};
+
+/**
+ * Where seeded returning-user storage states are written (git-ignored)
+ */
+const STORAGE_STATE_DIR = path.join('playwright', '.auth');
+
+/**
+ * Chromium-only launch flags
+ */
+const CHROMIUM_LAUNCH_ARGS = [
+  // Disable Local Network Access permission popup
+  '--disable-web-security',
+  // Additional automation flags
+  '--no-first-run',
+  '--no-default-browser-check',
+  '--disable-background-timer-throttling',
+  '--disable-backgrounding-occluded-windows',
+  '--disable-renderer-backgrounding',
+  '--disable-dev-shm-usage',
+  '--disable-extensions',
+  '--disable-plugins',
+  '--disable-sync',
+  '--disable-translate',
+  '--disable-default-apps',
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+];
+
+/**
+ * Runs execution combinations for one product on its own isolated browser, context and monitors
+ */
+export class BenchmarkWorker {
+  public readonly id: number;
+  private product: ProductConfig;
+  private config: Config;
+  private performanceMonitor: PerformanceMonitor;
+  private networkMonitor: NetworkMonitor;
+  private failedIterations: FailedIteration[] = [];
+  private injectedFaults: InjectedFault[] = [];
+  private workerLogger: ReturnType<typeof createLogger>;
+  private browser: Browser | null = null;
+  private browserType: BrowserType | null = null;
+  private throttlingStrategy: ThrottlingStrategy | null = null;
+  // One open context per combination, keyed by context key
+  private contexts = new Map<string, BrowserContext>();
+  // Archives recorded by open contexts, keyed by context key
+  private harRecordings = new Map<string, string>();
+  private storageStates: Map<string, Promise<string>>;
+  private checkpoint: CheckpointManager;
+
+  /**
+   * @param storageStates Seeded storage states shared by all workers of a pool, so each is seeded once
+   */
+  constructor(
+    id: number,
+    product: ProductConfig,
+    config: Config,
+    storageStates: Map<string, Promise<string>>,
+    checkpoint: CheckpointManager
+  ) {
+    this.id = id;
+    this.product = product;
+    this.config = config;
+    this.storageStates = storageStates;
+    this.checkpoint = checkpoint;
+    this.performanceMonitor = new PerformanceMonitor();
+    this.networkMonitor = new NetworkMonitor();
+    this.workerLogger = createLogger(`BenchmarkWorker:${product.name}#${id}`);
+  }
+
+  /**
+   * Run the warmup and all remaining measured iterations of a combination on this worker's browser,
+   * continuing after the last iteration recorded in the checkpoint
+   */
+  public async runCombination(combination: ExecutionContext): Promise<void> {
+    const firstIteration = await this.openCombination(combination);
+
+    try {
+      // Actual iterations with retry logic
+      for (let i = firstIteration; !this.isCombinationDone(combination, i - 1); i++) {
+        if (!(await this.runMeasuredIteration(combination, i))) {
+          break;
+        }
+
+        // Smart delay between iterations with jitter and extended delays
+        const delayMs = generateIterationDelay(i);
+        this.workerLogger.debug(`Waiting ${Math.round(delayMs / 1000)}s before next iteration`);
+        await delay(delayMs);
+      }
+    } finally {
+      await this.closeCombination(combination);
+    }
+  }
+
+  /**
+   * Restore checkpointed progress, open a context for the combination and run its warmup.
+   * Returns the first measured iteration still to run.
+   */
+  public async openCombination(combination: ExecutionContext): Promise<number> {
+    const progress = this.checkpoint.getProgress(this.product.name, combination);
+    if (progress) {
+      this.performanceMonitor.importContext(combination, progress.measurements);
+      this.performanceMonitor.importLongTasks(combination, progress.long_tasks ?? []);
+      this.performanceMonitor.importBlockingScripts(combination, progress.blocking_scripts ?? []);
+      this.performanceMonitor.importTraceBreakdowns(combination, progress.trace_breakdowns ?? []);
+      this.networkMonitor.importContext(combination, progress.network_requests);
+      this.failedIterations.push(...progress.failed_iterations);
+      this.injectedFaults.push(...progress.injected_faults);
+      this.workerLogger.info('Resuming combination from checkpoint', {
+        combination,
+        completedIterations: progress.completed_iterations,
+      });
+    }
+
+    // Launch (or reuse) the browser engine for this combination
+    await this.initializeBrowser(combination.browser);
+
+    // Fresh context per combination, preloaded with the returning user's state if logged in
+    const storageState = await this.resolveStorageState(combination);
+    await this.initializeContext(combination, storageState);
+
+    // Initialize execution context for this combination
+    await this.initializeExecutionContext(combination);
+
+    try {
+      // Warmup iteration with retry logic
+      this.workerLogger.debug('Starting warmup iteration');
+      await this.runIterationWithRetry(combination, 0, true);
+      this.workerLogger.debug('Warmup iteration completed');
+    } catch (error) {
+      await this.closeCombination(combination);
+      throw error;
+    }
+
+    return (progress?.completed_iterations ?? 0) + 1;
+  }
+
+  /**
+   * Run and checkpoint one measured iteration of an open combination.
+   * Returns false once the combination should not run any further iterations.
+   */
+  public async runMeasuredIteration(
+    combination: ExecutionContext,
+    iteration: number
+  ): Promise<boolean> {
+    this.workerLogger.debug(`Starting iteration ${iteration}/${this.getMaxIterations()}`);
+    const succeeded = await this.runIterationWithRetry(combination, iteration);
+    this.saveProgress(combination, iteration);
+
+    if (!succeeded && this.isFailureBudgetExceeded(combination)) {
+      this.workerLogger.error('❌ Failure budget exceeded, abandoning combination', undefined, {
+        combination,
+        maxFailurePercentage: this.config.execution.failure_policy.max_failure_percentage,
+        remainingIterations: this.getMaxIterations() - iteration,
+      });
+      return false;
+    }
+
+    this.workerLogger.debug(`Iteration ${iteration} completed`);
+    return true;
+  }
+
+  /**
+   * Close a combination's context once all of its iterations ran
+   */
+  public async closeCombination(combination: ExecutionContext): Promise<void> {
+    // Reset browser state after all iterations for this context
+    await this.resetExecutionContext(combination);
+  }
+
+  /**
+   * Checkpoint everything measured so far for a combination
+   */
+  private saveProgress(combination: ExecutionContext, completedIterations: number): void {
+    this.checkpoint.recordProgress(this.product.name, {
+      context: combination,
+      completed_iterations: completedIterations,
+      complete: this.isCombinationDone(combination, completedIterations),
+      measurements: this.performanceMonitor.exportContext(combination),
+      long_tasks: this.performanceMonitor.exportLongTasks(combination),
+      blocking_scripts: this.performanceMonitor.exportBlockingScripts(combination),
+      trace_breakdowns: this.performanceMonitor.exportTraceBreakdowns(combination),
+      network_requests: this.networkMonitor.exportContext(combination),
+      failed_iterations: this.getCombinationFailures(combination),
+      injected_faults: this.injectedFaults.filter(
+        (f) => getContextKey(f.combination) === getContextKey(combination)
+      ),
+    });
+  }
+
+  /**
+   * Whether a combination needs no further iterations: the fixed count is reached, or in adaptive
+   * mode the precision metric's confidence interval is narrow enough or the maximum is reached
+   */
+  public isCombinationDone(combination: ExecutionContext, completedIterations: number): boolean {
+    const adaptive = this.config.execution.adaptive;
+    if (!adaptive.enabled) {
+      return completedIterations >= this.config.execution.iterations;
+    }
+
+    if (completedIterations >= adaptive.max_iterations) {
+      return true;
+    }
+    if (completedIterations < adaptive.min_iterations) {
+      return false;
+    }
+
+    const measurements = this.performanceMonitor.exportContext(combination)[adaptive.metric] ?? [];
+    const interval = calculateConfidenceInterval(
+      measurements.map((m) => m.value),
+      adaptive.confidence_level
+    );
+    const done = interval !== null && interval.relativeWidth <= adaptive.target_relative_width;
+    this.workerLogger.debug('Adaptive precision check', {
+      combination,
+      completedIterations,
+      relativeWidth: interval?.relativeWidth,
+      target: adaptive.target_relative_width,
+      done,
+    });
+    return done;
+  }
+
+  /**
+   * Upper bound on a combination's measured iterations
+   */
+  private getMaxIterations(): number {
+    const adaptive = this.config.execution.adaptive;
+    return adaptive.enabled ? adaptive.max_iterations : this.config.execution.iterations;
+  }
+
+  private getCombinationFailures(combination: ExecutionContext): FailedIteration[] {
+    const contextKey = getContextKey(combination);
+    return this.failedIterations.filter((f) => getContextKey(f.combination) === contextKey);
+  }
+
+  /**
+   * Whether a combination's failed measured iterations exceed the `budget` failure policy
+   */
+  private isFailureBudgetExceeded(combination: ExecutionContext): boolean {
+    const { mode, max_failure_percentage } = this.config.execution.failure_policy;
+    if (mode !== 'budget') {
+      return false;
+    }
+
+    const failedCount = this.getCombinationFailures(combination).filter(
+      (f) => f.iteration > 0
+    ).length;
+    return (failedCount / this.getMaxIterations()) * 100 > max_failure_percentage;
+  }
+
+  public getPerformanceMonitor(): PerformanceMonitor {
+    return this.performanceMonitor;
+  }
+
+  public getNetworkMonitor(): NetworkMonitor {
+    return this.networkMonitor;
+  }
+
+  public getFailedIterations(): FailedIteration[] {
+    return this.failedIterations;
+  }
+
+  public getInjectedFaults(): InjectedFault[] {
+    return this.injectedFaults;
+  }
+
+  /**
+   * Launch the given browser engine, relaunching if the engine changed
+   */
+  private async initializeBrowser(browserType: BrowserType): Promise<void> {
+    if (this.browser && this.browserType !== browserType) {
+      this.workerLogger.debug('Switching browser engine', {
+        from: this.browserType,
+        to: browserType,
+      });
+      await this.cleanup();
+    }
+
+    if (!this.browser) {
+      this.workerLogger.debug('Creating browser instance', { browserType });
+      this.browser = await BROWSER_ENGINES[browserType].launch({
+        headless: this.config.execution.headless,
+        ...(browserType === 'chromium' && { args: CHROMIUM_LAUNCH_ARGS }),
+      });
+      this.browserType = browserType;
+      this.throttlingStrategy = createThrottlingStrategy(browserType);
+    }
+  }
+
+  /**
+   * Browser context options emulating the combination's device on its engine.
+   * Fields set on the device profile override its Playwright descriptor.
+   */
+  private buildContextOptions(combination: ExecutionContext): BrowserContextOptions {
+    const browserType = combination.browser;
+    const device = this.config.execution_matrix.device[combination.device];
+    const descriptor = device.descriptor ? devices[device.descriptor] : undefined;
+    const isMobile = device.is_mobile ?? descriptor?.isMobile ?? false;
+    // A user agent profile overrides the device's; mobile devices without one use the run's selection
+    const userAgent =
+      this.config.execution_matrix.user_agent[combination.user_agent].value ??
+      device.user_agent ??
+      descriptor?.userAgent ??
+      (isMobile ? this.selectUserAgent() : undefined);
+
+    return {
+      viewport: device.viewport ?? descriptor?.viewport ?? null,
+      ...(userAgent && { userAgent }),
+      deviceScaleFactor: device.device_scale_factor ?? descriptor?.deviceScaleFactor ?? 1,
+      // Firefox does not support isMobile
+      ...(browserType !== 'firefox' && { isMobile }),
+      hasTouch: device.has_touch ?? descriptor?.hasTouch ?? false,
+      // Grant permissions to avoid popups (camera/microphone are Chromium-only)
+      permissions:
+        browserType === 'chromium'
+          ? ['camera', 'microphone', 'geolocation', 'notifications']
+          : ['geolocation'],
+      // Ignore HTTPS errors for local development
+      ignoreHTTPSErrors: true,
+      // Accept downloads automatically
+      acceptDownloads: true,
+      // Reduce memory for realistic mobile constraints
+      javaScriptEnabled: true,
+    };
+  }
+
+  /**
+   * User agent from the built-in list (or the fixed one) according to the run's selection mode
+   */
+  private selectUserAgent(): string {
+    const { mode, seed, value } = this.config.execution.user_agent;
+    switch (mode) {
+      case 'fixed':
+        return value!;
+      case 'seeded':
+        return getSeededUserAgent(seed);
+      case 'random':
+        return getRandomUserAgent();
+    }
+  }
+
+  /**
+   * Create the combination's shared browser context, optionally preloaded with a returning user's storage state
+   */
+  private async initializeContext(
+    combination: ExecutionContext,
+    storageState?: string
+  ): Promise<void> {
+    if (!this.browser) {
+      throw new BrowserError('Browser not initialized');
+    }
+
+    const contextKey = getContextKey(combination);
+    if (!this.contexts.has(contextKey)) {
+      // In record mode the first fault-free combination's warmup load is saved as the product's
+      // archive when its context closes
+      let recordHarPath: string | undefined;
+      if (
+        this.config.har.mode === 'record' &&
+        this.config.execution_matrix.fault[combination.fault].rules.length === 0
+      ) {
+        const harPath = getHarPath(this.config.har, this.product);
+        if (claimHarRecording(harPath)) {
+          recordHarPath = harPath;
+          fs.mkdirSync(path.dirname(recordHarPath), { recursive: true });
+          this.harRecordings.set(contextKey, recordHarPath);
+        }
+      }
+
+      this.contexts.set(
+        contextKey,
+        await this.createBrowserContext(combination, storageState, recordHarPath)
+      );
+    }
+  }
+
+  /**
+   * New browser context emulating the combination's device, optionally preloaded with a storage
+   * state and recording a HAR archive
+   */
+  private async createBrowserContext(
+    combination: ExecutionContext,
+    storageState?: string,
+    recordHarPath?: string
+  ): Promise<BrowserContext> {
+    if (!this.browser) {
+      throw new BrowserError('Browser not initialized');
+    }
+
+    this.workerLogger.debug('Creating browser context with device emulation', {
+      browserType: combination.browser,
+      device: combination.device,
+      storageState,
+    });
+    return this.browser.newContext({
+      ...this.buildContextOptions(combination),
+      ...(storageState && { storageState }),
+      ...(recordHarPath && { recordHar: { path: recordHarPath, content: 'embed' } }),
+    });
+  }
+
+  /**
+   * Resolve the storage state for a combination's user state.
+   * Logged-in states use a pre-recorded file when configured, otherwise the POM seeds one once per browser.
+   */
+  private async resolveStorageState(combination: ExecutionContext): Promise<string | undefined> {
+    const userStateConfig = this.config.execution_matrix.user_state[combination.user_state];
+    if (!userStateConfig.is_logged_in) {
+      return undefined;
+    }
+
+    if (userStateConfig.storage_state_file) {
+      return userStateConfig.storage_state_file;
+    }
+
+    const cacheKey = `${combination.browser}|${combination.user_state}`;
+    let storageState = this.storageStates.get(cacheKey);
+    if (!storageState) {
+      const seeding = this.seedStorageState(combination, userStateConfig);
+      this.storageStates.set(cacheKey, seeding);
+      // A failed seed is not cached, so the next combination seeds again
+      seeding.catch(() => {
+        if (this.storageStates.get(cacheKey) === seeding) {
+          this.storageStates.delete(cacheKey);
+        }
+      });
+      storageState = seeding;
+    }
+    return storageState;
+  }
+
+  /**
+   * Run the POM's seed routine in a throwaway, unthrottled context and save its storage state
+   */
+  private async seedStorageState(
+    combination: ExecutionContext,
+    userStateConfig: UserStateConfig
+  ): Promise<string> {
+    if (!this.browser) {
+      throw new BrowserError('Browser not initialized');
+    }
+
+    const storageStatePath = path.join(
+      STORAGE_STATE_DIR,
+      `${sanitizeFilename(this.product.name)}-${combination.browser}-${combination.user_state}.json`
+    );
+    fs.mkdirSync(STORAGE_STATE_DIR, { recursive: true });
+
+    this.workerLogger.info('🔑 Seeding returning user state', {
+      userState: combination.user_state,
+      browser: combination.browser,
+      storageStatePath,
+    });
+
+    const seedContext = await this.browser.newContext(this.buildContextOptions(combination));
+    try {
+      const page = await seedContext.newPage();
+      const pom = await this.createPOM(page);
+
+      if (!pom.seedUserState) {
+        throw new ConfigurationError(
+          `POM '${this.product.pom_file}' cannot seed logged-in user state '${combination.user_state}'. Implement seedUserState() or set storage_state_file`,
+          { product: this.product.name, userState: combination.user_state }
+        );
+      }
+
+      await pom.seedUserState(userStateConfig);
+      await seedContext.storageState({ path: storageStatePath });
+    } finally {
+      await seedContext.close();
+    }
+
+    return storageStatePath;
+  }
+
+  /**
+   * Initialize execution context - throttling will be applied per page
+   */
+  private async initializeExecutionContext(combination: ExecutionContext): Promise<void> {
+    if (!this.contexts.has(getContextKey(combination))) {
+      throw new Error('Browser context not initialized');
+    }
+
+    const networkConfig = this.config.execution_matrix.network[combination.network];
+    const cpuConfig = this.config.execution_matrix.cpu[combination.cpu];
+
+    this.workerLogger.info('🚀 Starting execution context', {
+      combination,
+      networkSettings: {
+        condition: combination.network,
+        download: `${networkConfig.download_throughput / 1000}kbps`,
+        upload: `${networkConfig.upload_throughput / 1000}kbps`,
+        latency: `${networkConfig.latency}ms`,
+        connectionType: networkConfig.connection_type,
+        throttled: networkConfig.download_throughput > 0,
+      },
+      cpuSettings: {
+        condition: combination.cpu,
+        rate: `${cpuConfig.rate}x slowdown`,
+        throttled: cpuConfig.rate > 1,
+      },
+      throttlingStrategy: this.throttlingStrategy?.name,
+    });
+  }
+
+  /**
+   * Apply throttling to a page using the strategy supported by the current browser engine
+   */
+  private async applyThrottlingToPage(page: Page, combination: ExecutionContext): Promise<void> {
+    const networkConfig = this.config.execution_matrix.network[combination.network];
+    const cpuConfig = this.config.execution_matrix.cpu[combination.cpu];
+
+    if (!this.throttlingStrategy) {
+      throw new BrowserError('Throttling strategy not initialized');
+    }
+
+    try {
+      if (this.config.har.mode === 'replay') {
+        // Replay applies the network conditions itself; the strategy only throttles the CPU
+        await replayFromHar(
+          page,
+          getHarPath(this.config.har, this.product),
+          networkConfig,
+          this.config.har.think_time_ms
+        );
+        await this.throttlingStrategy.apply(page, UNTHROTTLED_NETWORK, cpuConfig);
+      } else {
+        await this.throttlingStrategy.apply(page, networkConfig, cpuConfig);
+      }
+
+      this.workerLogger.info('✅ Applied throttling to page', {
+        strategy: this.config.har.mode === 'replay' ? 'har-replay' : this.throttlingStrategy.name,
+        network: networkConfig.trace
+          ? `trace ${networkConfig.trace.downlink_file}`
+          : networkConfig.download_throughput > 0
+            ? `${networkConfig.download_throughput / 1000}kbps`
+            : 'no throttling',
+        latency: `${networkConfig.latency}ms`,
+        ...(networkConfig.jitter && { jitter: `±${networkConfig.jitter}ms` }),
+        ...(networkConfig.packet_loss && { packetLoss: `${networkConfig.packet_loss}%` }),
+        cpu: cpuConfig.rate > 1 ? `${cpuConfig.rate}x slowdown` : 'no throttling',
+      });
+    } catch (error) {
+      this.workerLogger.error(
+        'Failed to apply throttling to page',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Reset browser state after execution context completion
+   */
+  private async resetExecutionContext(combination: ExecutionContext): Promise<void> {
+    this.workerLogger.debug('Resetting execution context');
+
+    try {
+      // Reset browser state by creating a new context
+      const contextKey = getContextKey(combination);
+      const context = this.contexts.get(contextKey);
+      if (context) {
+        this.contexts.delete(contextKey);
+        await context.close();
+        this.workerLogger.debug('Closed browser context for reset');
+        const recordedHarPath = this.harRecordings.get(contextKey);
+        if (recordedHarPath) {
+          this.harRecordings.delete(contextKey);
+          this.workerLogger.info('💾 Recorded HAR archive', { file: recordedHarPath });
+        }
+      }
+    } catch (error) {
+      this.workerLogger.warn(`Error during execution context reset: ${error}`);
+    }
+  }
+
+  /**
+   * Cleanup browser and context resources
+   */
+  public async cleanup(): Promise<void> {
+    try {
+      for (const context of this.contexts.values()) {
+        await context.close();
+        this.workerLogger.debug('Context closed');
+      }
+      this.contexts.clear();
+      this.harRecordings.clear();
+      if (this.browser) {
+        await this.browser.close();
+        this.browser = null;
+        this.browserType = null;
+        this.throttlingStrategy = null;
+        this.workerLogger.debug('Browser closed');
+      }
+    } catch (error) {
+      this.workerLogger.warn(`Error during cleanup: ${error}`);
+    }
+  }
+
+  /**
+   * Run a single iteration with enhanced retry logic using exponential backoff.
+   * Returns false if every attempt failed and the failure policy allows carrying on.
+   */
+  private async runIterationWithRetry(
+    combination: ExecutionContext,
+    iteration: number,
+    skipMetrics: boolean = false
+  ): Promise<boolean> {
+    const retryConfig = this.config.execution.retry;
+    let attempts = 0;
+
+    try {
+      await exponentialBackoffRetry(
+        () => {
+          attempts++;
+          return this.runIteration(combination, iteration, skipMetrics);
+        },
+        {
+          maxRetries: retryConfig.max_attempts - 1, // -1 because exponentialBackoffRetry includes initial attempt
+          baseDelayMs: retryConfig.delay_between_retries,
+          maxDelayMs: 30000, // Cap at 30 seconds
+          jitterPercent: 25,
+          shouldRetry: (error) => {
+            // Don't retry on certain critical errors
+            const criticalErrors = ['Page crashed', 'Browser closed', 'Context disposed'];
+            const isCriticalError = criticalErrors.some((criticalError) =>
+              error.message.includes(criticalError)
+            );
+
+            if (isCriticalError) {
+              this.workerLogger.warn(`Critical error detected, not retrying: ${error.message}`);
+              return false;
+            }
+
+            return true;
+          },
+          onRetry: (attempt, error, delayMs) => {
+            this.workerLogger.warn(
+              `🔄 Retry attempt ${attempt}/${retryConfig.max_attempts - 1} for iteration ${iteration} after ${Math.round(delayMs / 1000)}s`,
+              {
+                error: error.message,
+                delayMs,
+                combination,
+              }
+            );
+          },
+        }
+      );
+
+      this.workerLogger.debug(`Iteration ${iteration} completed successfully`);
+    } catch (error) {
+      const lastError = error instanceof Error ? error : new Error(String(error));
+      this.workerLogger.error(
+        `💥 All retry attempts failed for iteration ${iteration}: ${lastError.message}`,
+        lastError
+      );
+
+      // Track failed iteration
+      this.failedIterations.push({
+        combination,
+        iteration,
+        error: lastError.message,
+        error_class: lastError.name,
+        attempts,
+        timestamp: new Date().toISOString(),
+      });
+
+      if (this.config.execution.failure_policy.mode !== 'abort') {
+        return false;
+      }
+
+      // Throw error to stop execution immediately
+      throw new Error(
+        `Benchmarking failed on iteration ${iteration} after ${attempts} attempts: ${lastError.message}`
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * Run a single iteration with per-page throttling application.
+   * The warmup runs in the combination's shared context; every measured iteration gets a fresh
+   * context prepared for the combination's cache state, so caches never leak between iterations.
+   */
+  private async runIteration(
+    combination: ExecutionContext,
+    iteration: number,
+    skipMetrics: boolean = false
+  ): Promise<void> {
+    const context = skipMetrics
+      ? this.contexts.get(getContextKey(combination))
+      : await this.createBrowserContext(combination, await this.resolveStorageState(combination));
+    if (!context) {
+      throw new Error('Browser context not initialized');
+    }
+
+    const cacheMode = this.config.execution_matrix.cache_state[combination.cache_state].mode;
+    let page: Page | null = null;
+    // Faults count towards the iteration once its measured load starts
+    let measuring = false;
+
+    try {
+      if (!skipMetrics && cacheMode === 'warm') {
+        // Prime the context's HTTP cache with an unmeasured load in another page
+        await this.runUnmeasuredLoad(context, combination, iteration);
+      }
+
+      page = await this.openThrottledPage(context, combination, iteration, () => measuring);
+      const pom = await this.createPOM(page);
+
+      if (!skipMetrics && cacheMode === 'cold') {
+        await this.clearBrowserCache(page, combination.browser);
+      }
+
+      if (!skipMetrics && cacheMode === 'repeat_view') {
+        // Unmeasured first view; the measured load below reopens checkout in the same page
+        await pom.initialize();
+        await pom.triggerCheckout(true);
+      }
+
+      // Set execution context for measurements, recording the user agent the page actually reports
+      if (!skipMetrics) {
+        measuring = true;
+        this.performanceMonitor.setExecutionContext(
+          combination,
+          iteration,
+          this.checkpoint.nextSequence(),
+          await page.evaluate(() => navigator.userAgent)
+        );
+        this.networkMonitor.setExecutionContext(combination, iteration);
+      }
+
+      // Run the test
+      await pom.initialize();
+      if (!skipMetrics && this.shouldTrace(combination, iteration)) {
+        await this.performTracedBenchmark(page, pom, combination, iteration);
+      } else {
+        await this.performInitialLoadBenchmark(pom, skipMetrics);
+      }
+    } finally {
+      // Only need to close the page - the context outlives it
+      try {
+        if (page && !page.isClosed()) {
+          await page.close();
+        }
+        if (!skipMetrics) {
+          await context.close();
+        }
+      } catch (error) {
+        this.workerLogger.warn(`Error during page cleanup: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Load the checkout once without recording metrics, e.g. to prime the cache
+   */
+  private async runUnmeasuredLoad(
+    context: BrowserContext,
+    combination: ExecutionContext,
+    iteration: number
+  ): Promise<void> {
+    const page = await this.openThrottledPage(context, combination, iteration, () => false);
+    try {
+      const pom = await this.createPOM(page);
+      await pom.initialize();
+      await pom.triggerCheckout(true);
+    } finally {
+      await page.close();
+    }
+  }
+
+  /**
+   * New page with the combination's throttling and faults applied and the monitors pointed at it
+   * @param recordsFaults Whether a fault injected now belongs to the iteration's measured load
+   */
+  private async openThrottledPage(
+    context: BrowserContext,
+    combination: ExecutionContext,
+    iteration: number,
+    recordsFaults: () => boolean
+  ): Promise<Page> {
+    const page = await context.newPage();
+
+    // Apply throttling to this specific page using Playwright's built-in API
+    await this.applyThrottlingToPage(page, combination);
+
+    // Faults are routed after throttling so they are matched first; only measured loads record them
+    await applyFaultProfile(
+      page,
+      this.config.execution_matrix.fault[combination.fault],
+      ({ url, rule }) => {
+        if (recordsFaults()) {
+          this.injectedFaults.push({
+            combination,
+            iteration,
+            url,
+            url_pattern: rule.url_pattern,
+            action: rule.action,
+            delay_ms: rule.delay_ms,
+            status: rule.status,
+            timestamp: new Date().toISOString(),
+          });
+        }
+      }
+    );
+
+    // Observe web vitals, long tasks, long animation frames and interactions in every frame,
+    // including checkout iframes opened later
+    await installWebVitalsObserver(page);
+    await installLongTaskObserver(page);
+    await installLongAnimationFrameObserver(page);
+    await installInteractionObserver(page);
+
+    // Set up monitors
+    this.performanceMonitor.setPage(page);
+    this.networkMonitor.setPage(page);
+
+    return page;
+  }
+
+  private async createPOM(page: Page): Promise<POM> {
+    const POMClass = await pomRegistry.resolve(this.product.pom_file);
+    return new POMClass(page, this.product, this.performanceMonitor, this.networkMonitor);
+  }
+
+  /**
+   * Clear the HTTP cache for cold loads. Only Chromium exposes this over CDP; fresh Firefox and
+   * WebKit contexts already start with an empty cache.
+   */
+  private async clearBrowserCache(page: Page, browserType: BrowserType): Promise<void> {
+    if (browserType !== 'chromium') {
+      return;
+    }
+
+    const session = await page.context().newCDPSession(page);
+    try {
+      await session.send('Network.clearBrowserCache');
+    } finally {
+      await session.detach();
+    }
+  }
+
+  /**
+   * Whether a measured iteration is traced: every `sample_every`th one, starting with the first.
+   * Only Chromium records traces.
+   */
+  private shouldTrace(combination: ExecutionContext, iteration: number): boolean {
+    const { enabled, sample_every } = this.config.tracing;
+    return enabled && combination.browser === 'chromium' && (iteration - 1) % sample_every === 0;
+  }
+
+  /**
+   * Run the benchmark under a Chrome trace, save the trace gzipped under
+   * `<output.directory>/traces` and record its breakdown by load phase
+   */
+  private async performTracedBenchmark(
+    page: Page,
+    pom: POM,
+    combination: ExecutionContext,
+    iteration: number
+  ): Promise<void> {
+    if (!this.browser) {
+      throw new BrowserError('Browser not initialized');
+    }
+
+    await this.browser.startTracing(page, { categories: TRACE_CATEGORIES });
+    let milestones: CheckoutMilestones | undefined;
+    let trace: Buffer;
+    try {
+      milestones = await this.performInitialLoadBenchmark(pom);
+    } finally {
+      trace = await this.browser.stopTracing();
+    }
+
+    const traceFile = path.join(
+      'traces',
+      `${sanitizeFilename(this.product.name)}-${sanitizeFilename(getContextKey(combination))}-iteration-${iteration}.json.gz`
+    );
+    const tracePath = path.join(this.config.output.directory, traceFile);
+    fs.mkdirSync(path.dirname(tracePath), { recursive: true });
+    fs.writeFileSync(tracePath, gzipSync(trace));
+    this.workerLogger.debug('Chrome trace saved', { tracePath });
+
+    if (milestones) {
+      this.performanceMonitor.recordTraceBreakdown(trace, traceFile, milestones);
+    }
+  }
+
+  /**
+   * Trigger checkout and record its metrics. Returns the POM's milestones when metrics are recorded.
+   */
+  private async performInitialLoadBenchmark(
+    pom: POM,
+    skipMetrics: boolean = false
+  ): Promise<CheckoutMilestones | undefined> {
+    // Trigger checkout and capture performance metrics
+    if (!this.performanceMonitor) {
+      throw new Error('Performance monitor not initialized');
+    }
+    const milestones = await pom.triggerCheckout(skipMetrics);
+    if (skipMetrics) {
+      return undefined;
+    }
+
+    if (typeof milestones !== 'object' || milestones === null) {
+      throw new ConfigurationError(
+        `POM '${this.product.pom_file}' must return its checkout milestones from triggerCheckout()`
+      );
+    }
+    this.performanceMonitor.recordMilestoneMetrics(milestones);
+    await this.performanceMonitor.recordLongTasks(milestones);
+    await this.performanceMonitor.recordBlockingScripts(milestones);
+    await this.performPostLoadInteractions(pom);
+    // Read after the interactions, as INP needs them
+    await this.performanceMonitor.recordWebVitals(
+      pom.checkoutFrame ?? [],
+      milestones[PERFORMANCE_MARKERS.CHECKOUT_START]
+    );
+    return milestones;
+  }
+
+  /**
+   * Run the product's post-load interactions on the idle checkout. A failed interaction only loses
+   * its own metric, as the checkout's load has already been measured.
+   */
+  private async performPostLoadInteractions(pom: POM): Promise<void> {
+    const supported = pom.interactions ?? [];
+    const selected = this.product.interactions;
+    const unsupported = (selected ?? []).filter((interaction) => !supported.includes(interaction));
+    if (unsupported.length > 0) {
+      throw new ConfigurationError(
+        `POM '${this.product.pom_file}' does not support interactions: ${unsupported.join(', ')}`
+      );
+    }
+
+    // Interactions submitting the checkout only run when the product opts in
+    const interactions = supported.filter((interaction) =>
+      selected ? selected.includes(interaction) : !SUBMITTING_INTERACTIONS.includes(interaction)
+    );
+    if (interactions.length === 0) {
+      return;
+    }
+    if (!pom.interact) {
+      throw new ConfigurationError(
+        `POM '${this.product.pom_file}' lists interactions but does not implement interact()`
+      );
+    }
+
+    for (const interaction of interactions) {
+      try {
+        await this.performanceMonitor.measureInteraction(interaction, () =>
+          pom.interact!(interaction)
+        );
+      } catch (error) {
+        this.workerLogger.warn(`Post-load interaction ${interaction} failed`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}